@@ -9,6 +9,7 @@ import TrelloCallback from "./pages/TrelloCallback";
 import ConfigureApp from "./pages/ConfigureApp";
 import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
+import CredentialGate from "./components/CredentialGate";
 
 const queryClient = new QueryClient();
 
@@ -18,15 +19,17 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Landing />} />
-          <Route path="/select-app" element={<AppSelection />} />
-          <Route path="/trello-callback" element={<TrelloCallback />} />
-          <Route path="/configure/:appId" element={<ConfigureApp />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <CredentialGate>
+          <Routes>
+            <Route path="/" element={<Landing />} />
+            <Route path="/select-app" element={<AppSelection />} />
+            <Route path="/trello-callback" element={<TrelloCallback />} />
+            <Route path="/configure/:appId" element={<ConfigureApp />} />
+            <Route path="/dashboard" element={<Dashboard />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </CredentialGate>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
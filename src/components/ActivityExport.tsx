@@ -0,0 +1,97 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatDateRange, getRangeBounds, queryActivity } from "@/lib/activityLog";
+import { downloadActivityExport, EXPORT_FORMATS, serializeActivity, type ExportFormat } from "@/lib/activityExport";
+import { platformAdapters } from "@/lib/platforms";
+import type { ProjectTool } from "@/lib/agilowApi";
+import DateRangePicker from "./DateRangePicker";
+
+interface ActivityExportProps {
+  onExported?: (count: number) => void;
+}
+
+// Radix selects can't hold an empty value
+const ALL = "all";
+
+// Downloads the persisted activity log for a date range and platform
+const ActivityExport: React.FC<ActivityExportProps> = ({ onExported }) => {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("markdown");
+  const [platform, setPlatform] = useState<ProjectTool | typeof ALL>(ALL);
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const { entries } = await queryActivity({
+        ...getRangeBounds(range),
+        platform: platform === ALL ? undefined : platform,
+        offset: 0,
+        limit: Number.POSITIVE_INFINITY,
+      });
+      const platformLabel = platform === ALL ? "" : ` · ${platformAdapters.find((adapter) => adapter.id === platform)?.name}`;
+      const title = `Agilow activity · ${formatDateRange(range)}${platformLabel}`;
+      downloadActivityExport(
+        serializeActivity(entries, exportFormat, title),
+        exportFormat,
+        `agilow-activity-${format(new Date(), "yyyy-MM-dd")}`
+      );
+      onExported?.(entries.length);
+    } catch (e) {
+      setError((e as Error).message || "Export failed");
+      console.error("Error exporting activity:", e);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Format</Label>
+        <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPORT_FORMATS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Platform</Label>
+        <Select value={platform} onValueChange={(value) => setPlatform(value as ProjectTool | typeof ALL)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All platforms</SelectItem>
+            {platformAdapters.map((adapter) => (
+              <SelectItem key={adapter.id} value={adapter.id}>{adapter.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label>Dates</Label>
+        <DateRangePicker value={range} onChange={setRange} />
+      </div>
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      <Button className="w-full" onClick={handleExport} disabled={isExporting}>
+        {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+        Download
+      </Button>
+    </div>
+  );
+};
+
+export default ActivityExport;
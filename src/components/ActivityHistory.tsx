@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { ACTIVITY_TYPES, getRangeBounds, queryActivity, type ActivityEntry, type ActivityType } from "@/lib/activityLog";
+import { platformAdapters } from "@/lib/platforms";
+import type { ProjectTool } from "@/lib/agilowApi";
+import DateRangePicker from "./DateRangePicker";
+
+interface ActivityHistoryProps {
+  renderEntry: (entry: ActivityEntry) => React.ReactNode;
+  // Refetches whenever this changes, e.g. when the live log gets a new entry
+  refreshKey?: unknown;
+}
+
+const PAGE_SIZE = 20;
+// Radix selects can't hold an empty value
+const ALL = "all";
+
+// Page numbers around the current one, with null marking a gap
+const getPageWindow = (page: number, pageCount: number): (number | null)[] => {
+  const pages = new Set([0, pageCount - 1, page - 1, page, page + 1].filter((p) => p >= 0 && p < pageCount));
+  const sorted = [...pages].sort((a, b) => a - b);
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? [null, p] : [p]));
+};
+
+// Searchable view over the persisted activity log
+const ActivityHistory: React.FC<ActivityHistoryProps> = ({ renderEntry, refreshKey }) => {
+  const [search, setSearch] = useState("");
+  const [type, setType] = useState<ActivityType | typeof ALL>(ALL);
+  const [platform, setPlatform] = useState<ProjectTool | typeof ALL>(ALL);
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [total, setTotal] = useState(0);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [search, type, platform, range]);
+
+  useEffect(() => {
+    let cancelled = false;
+    queryActivity({
+      search,
+      type: type === ALL ? undefined : type,
+      platform: platform === ALL ? undefined : platform,
+      ...getRangeBounds(range),
+      offset: page * PAGE_SIZE,
+      limit: PAGE_SIZE,
+    })
+      .then((result) => {
+        if (!cancelled) {
+          setEntries(result.entries);
+          setTotal(result.total);
+        }
+      })
+      .catch((error) => console.error("Error loading activity history:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [search, type, platform, range, page, refreshKey]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const goTo = (e: React.MouseEvent, target: number) => {
+    e.preventDefault();
+    if (target >= 0 && target < pageCount) {
+      setPage(target);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search messages"
+          className="sm:col-span-2"
+        />
+        <Select value={type} onValueChange={(value) => setType(value as ActivityType | typeof ALL)}>
+          <SelectTrigger>
+            <SelectValue placeholder="All types" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All types</SelectItem>
+            {ACTIVITY_TYPES.map((value) => (
+              <SelectItem key={value} value={value}>{value}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={platform} onValueChange={(value) => setPlatform(value as ProjectTool | typeof ALL)}>
+          <SelectTrigger>
+            <SelectValue placeholder="All platforms" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All platforms</SelectItem>
+            {platformAdapters.map((adapter) => (
+              <SelectItem key={adapter.id} value={adapter.id}>{adapter.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DateRangePicker value={range} onChange={setRange} className="sm:col-span-2" />
+      </div>
+
+      <div className="space-y-4 max-h-[50vh] overflow-y-auto">
+        {entries.length === 0 && <div className="text-gray-400">No matching actions.</div>}
+        {entries.map((entry) => (
+          <React.Fragment key={entry.id}>{renderEntry(entry)}</React.Fragment>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>{total} {total === 1 ? "entry" : "entries"}</span>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto justify-end">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious href="#" onClick={(e) => goTo(e, page - 1)} />
+              </PaginationItem>
+              {getPageWindow(page, pageCount).map((p, i) => (
+                <PaginationItem key={p ?? `gap-${i}`}>
+                  {p === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={p === page} onClick={(e) => goTo(e, p)}>
+                      {p + 1}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext href="#" onClick={(e) => goTo(e, page + 1)} />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityHistory;
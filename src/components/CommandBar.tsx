@@ -0,0 +1,67 @@
+import React, { useState } from "react";
+import { CornerDownLeft, History } from "lucide-react";
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from "@/components/ui/command";
+
+interface CommandBarProps {
+  disabled?: boolean;
+  isSending: boolean;
+  onSubmit: (text: string) => Promise<boolean>;
+}
+
+const MAX_RECENT_COMMANDS = 10;
+
+// Typed alternative to recording; picking a recent command puts it back in the input for editing
+const CommandBar: React.FC<CommandBarProps> = ({ disabled, isSending, onSubmit }) => {
+  const [text, setText] = useState("");
+  const [recent, setRecent] = useState<string[]>([]);
+
+  const command = text.trim();
+  const matches = recent.filter((entry) => entry !== command && entry.toLowerCase().includes(command.toLowerCase()));
+
+  const handleSend = async () => {
+    if (!command || disabled || isSending) {
+      return;
+    }
+    const sent = await onSubmit(command);
+    // Keep the text around after a failure so it can be fixed and sent again
+    if (sent) {
+      setText("");
+      setRecent((prev) => [command, ...prev.filter((entry) => entry !== command)].slice(0, MAX_RECENT_COMMANDS));
+    }
+  };
+
+  return (
+    <Command shouldFilter={false} className="border rounded-lg bg-white">
+      <CommandInput
+        value={text}
+        onValueChange={setText}
+        placeholder={disabled ? "Connect a platform to type commands" : 'e.g. "in Linear, create a bug for the login page"'}
+        disabled={disabled || isSending}
+      />
+      {(command || matches.length > 0) && (
+        <CommandList>
+          {command && (
+            <CommandItem value="send" onSelect={handleSend} disabled={disabled || isSending}>
+              <span className="truncate">{isSending ? "Sending..." : `Send "${command}"`}</span>
+              <CommandShortcut>
+                <CornerDownLeft className="w-3 h-3" />
+              </CommandShortcut>
+            </CommandItem>
+          )}
+          {matches.length > 0 && (
+            <CommandGroup heading="Recent">
+              {matches.map((entry) => (
+                <CommandItem key={entry} value={`recent-${entry}`} onSelect={() => setText(entry)}>
+                  <History className="w-4 h-4 mr-2 text-gray-400" />
+                  <span className="truncate">{entry}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+};
+
+export default CommandBar;
@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Lock, RefreshCw } from "lucide-react";
+import { credentialStore } from "@/lib/credentialStore";
+import { useCredentials } from "@/hooks/useCredentials";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "mousemove", "touchstart", "wheel"] as const;
+
+interface CredentialGateProps {
+  children: React.ReactNode;
+}
+
+// Holds the app back until stored credentials are decrypted, and locks them
+// again after the configured idle period when a passphrase is set
+const CredentialGate: React.FC<CredentialGateProps> = ({ children }) => {
+  const { status, protection, idleLockMinutes } = useCredentials();
+  const [hasUnlocked, setHasUnlocked] = useState(false);
+  const idleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (status === "unlocked") {
+      setHasUnlocked(true);
+    }
+  }, [status]);
+
+  // Idle lock
+  useEffect(() => {
+    if (status !== "unlocked" || protection !== "passphrase" || !idleLockMinutes) {
+      return;
+    }
+
+    const resetTimer = () => {
+      if (idleTimer.current) {
+        clearTimeout(idleTimer.current);
+      }
+      idleTimer.current = setTimeout(() => credentialStore.lock(), idleLockMinutes * 60 * 1000);
+    };
+
+    resetTimer();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, resetTimer));
+      if (idleTimer.current) {
+        clearTimeout(idleTimer.current);
+        idleTimer.current = null;
+      }
+    };
+  }, [status, protection, idleLockMinutes]);
+
+  if (status === "loading") {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <RefreshCw className="w-8 h-8 text-blue-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (status === "locked" && !hasUnlocked) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-200 flex items-center justify-center p-8">
+        <div className="max-w-md w-full">
+          <UnlockForm />
+        </div>
+      </div>
+    );
+  }
+
+  // Once the app has been used, an idle lock covers it instead of unmounting it
+  // so recordings and logs survive
+  return (
+    <>
+      {children}
+      {status === "locked" && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="max-w-md w-full">
+            <UnlockForm />
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+const UnlockForm: React.FC = () => {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await credentialStore.unlock(passphrase);
+      setPassphrase("");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (window.confirm("This removes all saved platform credentials from this browser. Continue?")) {
+      await credentialStore.reset();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-primary flex items-center gap-2">
+          <Lock className="w-5 h-5" /> Credentials locked
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="unlockPassphrase">Passphrase</Label>
+            <Input
+              id="unlockPassphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Enter your passphrase"
+              autoFocus
+              required
+            />
+          </div>
+          {error && <div className="text-sm text-red-500">{error}</div>}
+          <Button type="submit" className="w-full" disabled={!passphrase || isUnlocking}>
+            {isUnlocking ? "Unlocking..." : "Unlock"}
+          </Button>
+          <Button type="button" variant="ghost" className="w-full text-gray-500" onClick={handleReset}>
+            Forgot passphrase? Forget saved credentials
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CredentialGate;
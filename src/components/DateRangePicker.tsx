@@ -0,0 +1,37 @@
+import React from "react";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { formatDateRange } from "@/lib/activityLog";
+
+interface DateRangePickerProps {
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+  className?: string;
+}
+
+// Calendar popover for picking a day range, with a button to clear it
+const DateRangePicker: React.FC<DateRangePickerProps> = ({ value, onChange, className }) => (
+  <div className={`flex gap-2 ${className ?? ""}`}>
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="flex-1 justify-start font-normal">
+          <CalendarIcon className="w-4 h-4 mr-2" />
+          {formatDateRange(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar mode="range" selected={value} onSelect={onChange} numberOfMonths={2} />
+      </PopoverContent>
+    </Popover>
+    {value && (
+      <Button variant="ghost" size="icon" onClick={() => onChange(undefined)} title="Clear dates">
+        <X className="w-4 h-4" />
+      </Button>
+    )}
+  </div>
+);
+
+export default DateRangePicker;
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { bindingFromEvent, formatBinding, HOTKEY_ACTIONS, type HotkeyAction, type HotkeyBindings } from "@/lib/hotkeys";
+
+interface HotkeySettingsProps {
+  bindings: HotkeyBindings;
+  onRebind: (action: HotkeyAction, binding: string) => void;
+  onReset: () => void;
+}
+
+// Lists the recording shortcuts; "Change" waits for the next key combination
+const HotkeySettings: React.FC<HotkeySettingsProps> = ({ bindings, onRebind, onReset }) => {
+  const [capturing, setCapturing] = useState<HotkeyAction | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!capturing) {
+      return;
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const binding = bindingFromEvent(event);
+      if (!binding) {
+        return;
+      }
+      const taken = HOTKEY_ACTIONS.find(({ action }) => action !== capturing && bindings[action] === binding);
+      if (taken) {
+        setError(`${formatBinding(binding)} is already used for "${taken.label}"`);
+        return;
+      }
+      onRebind(capturing, binding);
+      setCapturing(null);
+      setError(null);
+    };
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [capturing, bindings, onRebind]);
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-gray-600">Shortcuts are ignored while you are typing in a text field.</div>
+      <div className="space-y-2">
+        {HOTKEY_ACTIONS.map(({ action, label, description }) => (
+          <div key={action} className="flex items-center gap-3 py-2 px-3 rounded bg-gray-50">
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-gray-900">{label}</div>
+              <div className="text-xs text-gray-500">{description}</div>
+            </div>
+            <kbd className="px-2 py-1 rounded border bg-white font-mono text-xs text-gray-700">
+              {capturing === action ? "Press keys..." : formatBinding(bindings[action])}
+            </kbd>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => {
+                setError(null);
+                setCapturing(capturing === action ? null : action);
+              }}
+            >
+              {capturing === action ? "Cancel" : "Change"}
+            </Button>
+          </div>
+        ))}
+      </div>
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      <Button variant="outline" className="w-full" onClick={onReset} disabled={capturing !== null}>
+        Reset to defaults
+      </Button>
+    </div>
+  );
+};
+
+export default HotkeySettings;
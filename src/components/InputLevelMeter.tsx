@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from "react";
+import { MicOff } from "lucide-react";
+import { DEFAULT_SILENCE_THRESHOLD, type AudioRecorder } from "@/utils/audioRecorder";
+
+interface InputLevelMeterProps {
+  recorder: AudioRecorder;
+  active: boolean;
+}
+
+const POLL_MS = 100;
+const SILENCE_WARNING_MS = 5000;
+// Speech sits far below full scale, so the bar spans -60 dB to 0 dB rather than raw RMS
+const FLOOR_DB = -60;
+
+const toMeterLevel = (rms: number): number =>
+  rms > 0 ? Math.min(1, Math.max(0, 1 - (20 * Math.log10(rms)) / FLOOR_DB)) : 0;
+
+// Live input level while recording, with a hint when nothing has been heard yet
+const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ recorder, active }) => {
+  const [level, setLevel] = useState(0);
+  const [isSilent, setIsSilent] = useState(false);
+
+  useEffect(() => {
+    if (!active) {
+      setLevel(0);
+      setIsSilent(false);
+      return;
+    }
+    const startedAt = Date.now();
+    let heardSound = false;
+    const timer = setInterval(() => {
+      const rms = recorder.getInputLevel();
+      setLevel(toMeterLevel(rms));
+      if (rms >= DEFAULT_SILENCE_THRESHOLD) {
+        heardSound = true;
+      }
+      setIsSilent(!heardSound && Date.now() - startedAt >= SILENCE_WARNING_MS);
+    }, POLL_MS);
+    return () => clearInterval(timer);
+  }, [recorder, active]);
+
+  return (
+    <div className="w-full max-w-xs">
+      <div className="h-2 w-full rounded-full bg-gray-200 overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-[width] duration-100 ${level > 0.9 ? "bg-red-500" : "bg-green-500"}`}
+          style={{ width: `${Math.round(level * 100)}%` }}
+        />
+      </div>
+      {isSilent && (
+        <div className="mt-2 flex items-center gap-2 text-xs text-yellow-700">
+          <MicOff className="w-4 h-4 shrink-0" />
+          No sound from your microphone. Check that it isn't muted or pick another input.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InputLevelMeter;
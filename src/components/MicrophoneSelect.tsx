@@ -0,0 +1,40 @@
+import React from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Microphone } from "@/hooks/useMicrophones";
+
+interface MicrophoneSelectProps {
+  microphones: Microphone[];
+  // Unset for the system default
+  deviceId?: string | null;
+  onSelect: (deviceId: string | null) => void;
+  disabled?: boolean;
+}
+
+// Radix selects can't hold an empty value
+const DEFAULT_MICROPHONE = "default";
+
+// Input picker fed by useMicrophones
+const MicrophoneSelect: React.FC<MicrophoneSelectProps> = ({ microphones, deviceId, onSelect, disabled }) => {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Microphone</label>
+      <Select
+        value={deviceId ?? DEFAULT_MICROPHONE}
+        onValueChange={(value) => onSelect(value === DEFAULT_MICROPHONE ? null : value)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_MICROPHONE}>System default</SelectItem>
+          {microphones.map((microphone) => (
+            <SelectItem key={microphone.deviceId} value={microphone.deviceId}>{microphone.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default MicrophoneSelect;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { PlatformField, PlatformFieldOption, PlatformFieldValues } from "@/lib/platforms";
+import { agilowApi } from "@/lib/agilowApi";
+
+interface PlatformFieldInputProps {
+  field: PlatformField;
+  values: PlatformFieldValues;
+  onChange: (name: string, value: string) => void;
+  className?: string;
+}
+
+// Wait for the user to finish typing credentials before hitting the platform's API
+const FETCH_DELAY_MS = 500;
+
+// Renders one adapter field: a plain input, or a select whose options are discovered
+// from the platform once the fields it depends on are filled in
+const PlatformFieldInput: React.FC<PlatformFieldInputProps> = ({ field, values, onChange, className }) => {
+  if (field.type === "select") {
+    return <PlatformSelectField field={field} values={values} onChange={onChange} className={className} />;
+  }
+
+  return (
+    <Input
+      id={field.name}
+      type={field.type}
+      value={values[field.name] || ""}
+      onChange={(e) => onChange(field.name, e.target.value)}
+      placeholder={field.placeholder}
+      required={!field.optional}
+      className={className}
+    />
+  );
+};
+
+const PlatformSelectField: React.FC<PlatformFieldInputProps> = ({ field, values, onChange, className }) => {
+  const [options, setOptions] = useState<PlatformFieldOption[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const dependencies = field.dependsOn ?? [];
+  const isReady = dependencies.every((name) => !!values[name]);
+  // Only refetch when a field this one depends on changes
+  const dependencyKey = JSON.stringify(dependencies.map((name) => values[name] || ""));
+
+  useEffect(() => {
+    if (!isReady || !field.loadOptions) {
+      setOptions([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const result = await field.loadOptions(values, agilowApi);
+        if (!cancelled) {
+          setOptions(result);
+          setError(result.length === 0 && !field.optional ? `No ${field.label.toLowerCase()} options found` : null);
+        }
+      } catch (e) {
+        if (!cancelled) {
+          setOptions([]);
+          setError((e as Error).message || `Failed to load ${field.label.toLowerCase()} options`);
+          console.error(`Error loading ${field.name} options:`, e);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }, FETCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+    // values is read through dependencyKey
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [field, isReady, dependencyKey]);
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={values[field.name] || ""}
+        onValueChange={(value) => onChange(field.name, value)}
+        disabled={!isReady || isLoading || options.length === 0}
+      >
+        <SelectTrigger id={field.name} className={className ?? "w-full"}>
+          <SelectValue placeholder={!isReady ? "Fill in the fields above first" : isLoading ? "Loading..." : field.placeholder} />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {error && <div className="text-sm text-red-500">{error}</div>}
+    </div>
+  );
+};
+
+export default PlatformFieldInput;
@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import type { ProposedOperation } from "@/lib/agilowApi";
+
+interface ProposedOperationsReviewProps {
+  platformName: string;
+  transcript?: string | null;
+  proposals: ProposedOperation[];
+  isApplying: boolean;
+  onApply: (approved: ProposedOperation[]) => void;
+  onDiscard: () => void;
+}
+
+interface Draft {
+  approved: boolean;
+  operation: ProposedOperation;
+}
+
+// Only plain values are editable; anything structured is sent back as the backend proposed it
+const isEditable = (value: unknown): value is string | number =>
+  typeof value === "string" || typeof value === "number";
+
+// Inputs hand back text, so a field the backend proposed as a number is stored as one again.
+// Text that doesn't parse is kept as typed and blocks applying until it is fixed.
+const toFieldValue = (text: string, proposed: unknown): string | number => {
+  const parsed = Number(text);
+  return typeof proposed === "number" && text.trim() !== "" && Number.isFinite(parsed) ? parsed : text;
+};
+
+// Editable cards for operations the backend parsed but hasn't applied yet
+const ProposedOperationsReview: React.FC<ProposedOperationsReviewProps> = ({
+  platformName,
+  transcript,
+  proposals,
+  isApplying,
+  onApply,
+  onDiscard,
+}) => {
+  const [drafts, setDrafts] = useState<Draft[]>(() =>
+    proposals.map((operation) => ({ approved: true, operation }))
+  );
+
+  const updateDraft = (index: number, change: (draft: Draft) => Draft) => {
+    setDrafts((prev) => prev.map((draft, i) => (i === index ? change(draft) : draft)));
+  };
+
+  const isNumberField = (index: number, name: string) => typeof proposals[index].fields?.[name] === "number";
+  const isInvalidNumber = (index: number, name: string, value: unknown) =>
+    isNumberField(index, name) && typeof value !== "number";
+
+  const updateField = (index: number, name: string, text: string) => {
+    const value = toFieldValue(text, proposals[index].fields?.[name]);
+    updateDraft(index, (draft) => ({
+      ...draft,
+      operation: { ...draft.operation, fields: { ...draft.operation.fields, [name]: value } },
+    }));
+  };
+
+  const approved = drafts.filter((draft) => draft.approved).map((draft) => draft.operation);
+  const hasInvalidNumber = drafts.some(
+    (draft, index) =>
+      draft.approved &&
+      Object.entries(draft.operation.fields ?? {}).some(([name, value]) => isInvalidNumber(index, name, value))
+  );
+
+  return (
+    <div className="space-y-4">
+      {transcript && <p className="text-sm text-gray-600">"{transcript}"</p>}
+      <div className="space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+        {drafts.map((draft, index) => (
+          <div
+            key={index}
+            className={`rounded-lg border p-4 space-y-3 ${draft.approved ? "border-blue-200 bg-blue-50/40" : "border-gray-200 opacity-60"}`}
+          >
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`proposal-${index}`}
+                checked={draft.approved}
+                onCheckedChange={(checked) => updateDraft(index, (prev) => ({ ...prev, approved: checked === true }))}
+              />
+              <Label htmlFor={`proposal-${index}`} className="flex-1">Apply</Label>
+              <Badge variant="outline" className="text-xs">{draft.operation.operation}</Badge>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-500">Task</Label>
+              <Input
+                value={draft.operation.task ?? ""}
+                onChange={(e) => updateDraft(index, (prev) => ({ ...prev, operation: { ...prev.operation, task: e.target.value } }))}
+                disabled={!draft.approved}
+              />
+            </div>
+            {Object.entries(draft.operation.fields ?? {}).map(([name, value]) => (
+              <div key={name} className="space-y-1">
+                <Label className="text-xs text-gray-500">{name}</Label>
+                {isEditable(value) ? (
+                  <Input
+                    type={isNumberField(index, name) ? "number" : "text"}
+                    value={String(value)}
+                    onChange={(e) => updateField(index, name, e.target.value)}
+                    disabled={!draft.approved}
+                    aria-invalid={isInvalidNumber(index, name, value)}
+                    className={isInvalidNumber(index, name, value) ? "border-red-500" : undefined}
+                  />
+                ) : (
+                  <p className="text-sm text-gray-700 break-all">{JSON.stringify(value)}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button className="flex-1" onClick={() => onApply(approved)} disabled={isApplying || approved.length === 0 || hasInvalidNumber}>
+          {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Apply {approved.length} to {platformName}
+        </Button>
+        <Button variant="outline" className="flex-1" onClick={onDiscard} disabled={isApplying}>
+          Discard
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ProposedOperationsReview;
@@ -0,0 +1,130 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Info } from "lucide-react";
+import { credentialStore } from "@/lib/credentialStore";
+import { useCredentials } from "@/hooks/useCredentials";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+const IDLE_LOCK_OPTIONS = [5, 15, 30, 60];
+
+// Passphrase protection and idle lock for the stored platform credentials
+const SecuritySettings: React.FC = () => {
+  const { protection, idleLockMinutes } = useCredentials();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (passphrase !== confirmation) {
+      setError("Passphrases don't match");
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      await credentialStore.enablePassphrase(passphrase);
+      setPassphrase("");
+      setConfirmation("");
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsSaving(true);
+    try {
+      await credentialStore.disablePassphrase();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (protection === "passphrase") {
+    return (
+      <div className="space-y-4">
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertDescription>
+            Your credentials are encrypted with your passphrase and must be unlocked after every reload.
+          </AlertDescription>
+        </Alert>
+        <div className="space-y-2">
+          <Label>Lock after inactivity</Label>
+          <Select
+            value={idleLockMinutes ? String(idleLockMinutes) : "never"}
+            onValueChange={(value) => credentialStore.setIdleLockMinutes(value === "never" ? null : Number(value))}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              {IDLE_LOCK_OPTIONS.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => credentialStore.lock()}>
+            Lock now
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={handleDisable} disabled={isSaving}>
+            Remove passphrase
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleEnable} className="space-y-4">
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription>
+          Your credentials are encrypted with a key kept in this browser. Add a passphrase so they
+          can't be read without it.
+        </AlertDescription>
+      </Alert>
+      <div className="space-y-2">
+        <Label htmlFor="passphrase">Passphrase</Label>
+        <Input
+          id="passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="passphraseConfirmation">Confirm passphrase</Label>
+        <Input
+          id="passphraseConfirmation"
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          required
+        />
+      </div>
+      {error && <div className="text-sm text-red-500">{error}</div>}
+      <Button type="submit" className="w-full" disabled={isSaving}>
+        {isSaving ? "Encrypting..." : "Set passphrase"}
+      </Button>
+    </form>
+  );
+};
+
+export default SecuritySettings;
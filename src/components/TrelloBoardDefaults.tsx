@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { TrelloBoardDefaults as BoardDefaults } from "@/lib/agilowApi";
+import {
+  fetchTrelloBoardLabels,
+  fetchTrelloBoardLists,
+  fetchTrelloBoardMembers,
+  type TrelloLabel,
+  type TrelloList,
+  type TrelloMember,
+} from "@/lib/platforms/trello";
+
+interface TrelloBoardDefaultsProps {
+  apiKey: string;
+  token: string;
+  boardId: string;
+  defaults: BoardDefaults;
+  onChange: (defaults: BoardDefaults) => void;
+}
+
+// Radix selects can't hold an empty value
+const NO_LIST = "none";
+
+const toggle = (ids: string[] | undefined, id: string) =>
+  ids?.includes(id) ? ids.filter((value) => value !== id) : [...(ids ?? []), id];
+
+// Default list, labels and members for cards created by voice on one board
+const TrelloBoardDefaults: React.FC<TrelloBoardDefaultsProps> = ({ apiKey, token, boardId, defaults, onChange }) => {
+  const [lists, setLists] = useState<TrelloList[]>([]);
+  const [labels, setLabels] = useState<TrelloLabel[]>([]);
+  const [members, setMembers] = useState<TrelloMember[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      fetchTrelloBoardLists(apiKey, token, boardId),
+      fetchTrelloBoardLabels(apiKey, token, boardId),
+      fetchTrelloBoardMembers(apiKey, token, boardId),
+    ])
+      .then(([boardLists, boardLabels, boardMembers]) => {
+        if (!cancelled) {
+          setLists(boardLists);
+          setLabels(boardLabels);
+          setMembers(boardMembers);
+          setError(null);
+        }
+      })
+      .catch((e) => {
+        if (!cancelled) {
+          setError((e as Error).message || "Failed to load board details");
+          console.error("Error fetching Trello board details:", e);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiKey, token, boardId]);
+
+  const chipClass = (selected: boolean) =>
+    `rounded-full border px-2 py-0.5 text-xs transition-colors ${
+      selected ? "border-blue-500 bg-blue-50 text-blue-900" : "border-gray-200 text-gray-600 hover:border-gray-300"
+    }`;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Default list</label>
+        <Select
+          value={defaults.listId || NO_LIST}
+          onValueChange={(value) => onChange({ ...defaults, listId: value === NO_LIST ? undefined : value })}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue placeholder="Let Agilow decide" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_LIST}>Let Agilow decide</SelectItem>
+            {lists.map((list) => (
+              <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="mt-1 text-xs text-gray-500">Saying a list, e.g. "in Doing", still overrides this.</p>
+      </div>
+
+      {labels.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Default labels</label>
+          <div className="flex flex-wrap gap-1">
+            {labels.map((label) => (
+              <button
+                key={label.id}
+                type="button"
+                className={chipClass(!!defaults.labelIds?.includes(label.id))}
+                onClick={() => onChange({ ...defaults, labelIds: toggle(defaults.labelIds, label.id) })}
+              >
+                {label.name || label.color}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {members.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Default members</label>
+          <div className="flex flex-wrap gap-1">
+            {members.map((member) => (
+              <button
+                key={member.id}
+                type="button"
+                className={chipClass(!!defaults.memberIds?.includes(member.id))}
+                onClick={() => onChange({ ...defaults, memberIds: toggle(defaults.memberIds, member.id) })}
+              >
+                {member.fullName || member.username}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-500">{error}</div>}
+    </div>
+  );
+};
+
+export default TrelloBoardDefaults;
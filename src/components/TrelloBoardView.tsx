@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Calendar, Loader2, RefreshCw } from "lucide-react";
+import { fetchTrelloBoardLists, type TrelloCard, type TrelloList } from "@/lib/platforms/trello";
+
+interface TrelloBoardViewProps {
+  apiKey: string;
+  token: string;
+  boardId: string;
+  // Bump to refetch, e.g. after a voice command changed the board
+  refreshKey?: number;
+}
+
+// Trello's named label colours; anything else falls back to grey
+const LABEL_COLORS: Record<string, string> = {
+  green: "bg-green-500",
+  yellow: "bg-yellow-400",
+  orange: "bg-orange-500",
+  red: "bg-red-500",
+  purple: "bg-purple-500",
+  blue: "bg-blue-500",
+  sky: "bg-sky-400",
+  lime: "bg-lime-500",
+  pink: "bg-pink-400",
+  black: "bg-gray-800",
+};
+
+const getLabelColor = (color: string | null) => LABEL_COLORS[color?.split("_")[0] ?? ""] ?? "bg-gray-400";
+
+const getDueBadgeClass = (card: TrelloCard) => {
+  if (card.dueComplete) return "bg-green-100 text-green-800";
+  if (card.due && new Date(card.due).getTime() < Date.now()) return "bg-red-100 text-red-800";
+  return "bg-gray-100 text-gray-700";
+};
+
+// Read-only snapshot of a board: one column per list, cards with their labels and due dates
+const TrelloBoardView: React.FC<TrelloBoardViewProps> = ({ apiKey, token, boardId, refreshKey = 0 }) => {
+  const [lists, setLists] = useState<TrelloList[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [manualRefresh, setManualRefresh] = useState(0);
+
+  useEffect(() => {
+    if (!apiKey || !token || !boardId) {
+      setLists([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetchTrelloBoardLists(apiKey, token, boardId)
+      .then((result) => {
+        if (!cancelled) {
+          setLists(result);
+          setError(null);
+        }
+      })
+      .catch((e) => {
+        if (!cancelled) {
+          setError((e as Error).message || "Failed to load board");
+          console.error("Error fetching Trello board lists:", e);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [apiKey, token, boardId, refreshKey, manualRefresh]);
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg font-semibold text-gray-900">Board</CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setManualRefresh((prev) => prev + 1)}
+          disabled={isLoading || !boardId}
+          className="text-gray-600"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {error && <div className="mb-3 text-sm text-red-500">{error}</div>}
+        {!boardId ? (
+          <p className="text-sm text-gray-500">Select a board to see its lists.</p>
+        ) : lists.length === 0 && !isLoading ? (
+          <p className="text-sm text-gray-500">This board has no open lists.</p>
+        ) : (
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {lists.map((list) => (
+              <div key={list.id} className="w-64 shrink-0 rounded-lg bg-gray-100 p-3">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-semibold text-gray-800 truncate">{list.name}</h4>
+                  <span className="text-xs text-gray-500">{list.cards.length}</span>
+                </div>
+                <div className="space-y-2">
+                  {list.cards.map((card) => (
+                    <div key={card.id} className="rounded-md bg-white p-2 shadow-sm">
+                      {card.labels.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-1">
+                          {card.labels.map((label) => (
+                            <span
+                              key={label.id}
+                              className={`rounded px-1.5 py-0.5 text-[10px] font-medium text-white ${getLabelColor(label.color)}`}
+                              title={label.name || label.color || undefined}
+                            >
+                              {label.name || " "}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      <p className="text-sm text-gray-900">{card.name}</p>
+                      {card.due && (
+                        <Badge className={`mt-1 text-xs ${getDueBadgeClass(card)}`}>
+                          <Calendar className="w-3 h-3 mr-1" />
+                          {new Date(card.due).toLocaleDateString()}
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+                  {list.cards.length === 0 && <p className="text-xs text-gray-400">No cards</p>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrelloBoardView;
@@ -3,48 +3,110 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { Mic, Square, RefreshCw, LogOut, ArrowLeft, CheckCircle, AlertTriangle, Info, MessageCircle, X, Trello, Notebook, Zap } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Mic, Square, RefreshCw, LogOut, ArrowLeft, CheckCircle, AlertTriangle, Info, MessageCircle, X, Zap, Clock, Trash2, Lock, Plus, Undo2, History, Download, Pencil, Keyboard } from 'lucide-react';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { AudioRecorder, sendAudioToBackend } from '@/utils/audioRecorder';
+import { AudioRecorder } from '@/utils/audioRecorder';
+import {
+  agilowApi,
+  AgilowNetworkError,
+  getInverseOperation,
+  type InverseOperation,
+  type PlatformConfig,
+  type ProjectTool,
+  type ProposedOperation,
+  type RecordingSession,
+  type TrelloBoardDefaults as BoardDefaults,
+  type VoiceCommandResponse,
+} from '@/lib/agilowApi';
+import { parsePlatformPrefix, sendTextCommand, sendVoiceCommand, settleTarget, PLATFORM_NAMES, type CommandTarget } from '@/lib/commandRouting';
+import { getPlatformAdapter } from '@/lib/platforms';
+import { fetchTrelloBoards } from '@/lib/platforms/trello';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { useReviewMode } from '@/hooks/useReviewMode';
+import { useHotkeyBindings, useHotkeys } from '@/hooks/useHotkeys';
+import { useMicrophones } from '@/hooks/useMicrophones';
+import { RECORDING_LIMIT_OPTIONS, useRecordingLimit } from '@/hooks/useRecordingLimit';
+import { formatBinding } from '@/lib/hotkeys';
+import { listRecentActivity, pruneActivityLog, saveActivityEntry } from '@/lib/activityLog';
+import { saveUtterance } from '@/lib/utteranceStore';
 import ConfigurationForm from './ConfigurationForm';
-import Cookies from 'js-cookie';
+import SecuritySettings from './SecuritySettings';
+import TrelloBoardDefaults from './TrelloBoardDefaults';
+import ProposedOperationsReview from './ProposedOperationsReview';
+import ActivityHistory from './ActivityHistory';
+import ActivityExport from './ActivityExport';
+import UtterancePlayer from './UtterancePlayer';
+import CommandBar from './CommandBar';
+import HotkeySettings from './HotkeySettings';
+import InputLevelMeter from './InputLevelMeter';
+import MicrophoneSelect from './MicrophoneSelect';
+import { credentialStore, CredentialsLockedError, selectConnectedPlatforms, selectCredentials } from '@/lib/credentialStore';
+import { useCredentials } from '@/hooks/useCredentials';
 import agilowLogo from '@/assets/agilow-logo.jpeg';
-import linearLogo from '@/assets/linear-logo.svg';
 
-type ProjectTool = "trello" | "linear" | "asana" | "notion";
 type RecordingMode = "batch" | "continuous";
 type RecordingStatus = "idle" | "recording" | "processing";
 
+interface PendingReview {
+  id: string;
+  platform: ProjectTool;
+  transcript?: string | null;
+  proposals: ProposedOperation[];
+}
+
 interface LogEntry {
   id: string;
+  // ISO 8601
   timestamp: string;
-  type: "info" | "success" | "warning" | "error" | "voice" | "transcribed" | "task" | "due-date";
+  type: "info" | "success" | "warning" | "error" | "voice" | "transcribed" | "task" | "due-date" | "queued" | "cancelled";
   message: string;
   details?: {
     transcription?: string;
     taskName?: string;
     taskStatus?: string;
     dueDate?: string;
+    platform?: ProjectTool;
+    // Present on task rows the backend told us how to reverse
+    undo?: { entityId: string; inverse: InverseOperation };
+    undone?: boolean;
+    // Recording kept in the utterance store for playback
+    audioId?: string;
   };
 }
 
-interface TrelloConfig {
-  apiKey: string;
-  token: string;
-  boardId: string;
-}
+// The panel only holds the latest entries; the full history lives in IndexedDB
+const RECENT_LOG_LIMIT = 50;
 
-interface LinearConfig {
-  apiKey: string;
-  workspaceId: string;
+// A batch recording that outgrew the upload limit and is being sent in parts
+interface ActiveSession {
+  id: string;
+  nextPart: number;
+  // Settles on the first part's platform so later parts aren't routed on their own
+  target: CommandTarget;
+  // Once a part is queued offline the rest are queued behind it, to keep them in order
+  queuedBecause: Error | null;
+  // Once a part is rejected the rest are kept but not sent, since they'd be stitched without it
+  failedBecause: Error | null;
 }
 
-interface AsanaConfig {
-  personalAccessToken: string;
-  projectId: string;
-}
+const mergeLogs = (incoming: LogEntry[], current: LogEntry[]) => {
+  const ids = new Set(current.map((log) => log.id));
+  return [...incoming.filter((log) => !ids.has(log.id)), ...current]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, RECENT_LOG_LIMIT);
+};
+
+const persistLog = (log: LogEntry) => {
+  saveActivityEntry(log).catch((error) => console.error("Error saving activity:", error));
+};
 
-type PlatformConfig = TrelloConfig | LinearConfig | AsanaConfig;
+// Playback is a nicety; failing to store the audio must not block sending it
+const keepUtterance = (audioBlob: Blob): Promise<string | null> =>
+  saveUtterance(audioBlob).catch((error) => {
+    console.error("Error saving recording:", error);
+    return null;
+  });
 
 const UnifiedDashboard = () => {
   const navigate = useNavigate();
@@ -57,95 +119,74 @@ const UnifiedDashboard = () => {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [recordingTime, setRecordingTime] = useState(0);
   const [showConfigForm, setShowConfigForm] = useState(false);
-  const [isConfigured, setIsConfigured] = useState(false);
-  const [platformConfig, setPlatformConfig] = useState<PlatformConfig | null>(null);
-  const [showSwitchConfirm, setShowSwitchConfirm] = useState(false);
+  const [commandTarget, setCommandTarget] = useState<CommandTarget>("auto");
+  const [showSecuritySettings, setShowSecuritySettings] = useState(false);
   const [latestResponse, setLatestResponse] = useState('How can I help you today?');
   const [trelloBoards, setTrelloBoards] = useState<{id: string, name: string}[]>([]);
-  const [selectedBoardId, setSelectedBoardId] = useState<string | null>(null);
   const [trelloBoardError, setTrelloBoardError] = useState<string | null>(null);
+  const [undoingLogId, setUndoingLogId] = useState<string | null>(null);
+  const [pendingReviews, setPendingReviews] = useState<PendingReview[]>([]);
+  const [isApplyingReview, setIsApplyingReview] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [editingTranscript, setEditingTranscript] = useState<{ logId: string; text: string } | null>(null);
+  const [isRerunning, setIsRerunning] = useState(false);
+  const [isSendingText, setIsSendingText] = useState(false);
+  const [showHotkeySettings, setShowHotkeySettings] = useState(false);
+  const { reviewPlatforms, toggleReview } = useReviewMode();
+  const { bindings: hotkeys, rebind, resetBindings } = useHotkeyBindings();
+  const { microphones, deviceId, selectMicrophone, refresh: refreshMicrophones } = useMicrophones();
+  const { maxRecordingSeconds, setMaxRecordingSeconds } = useRecordingLimit();
+
+  // Credentials come from the store so edits anywhere are picked up here
+  const credentials = useCredentials();
+  const platformConfig = selectCredentials(credentials, selectedTool);
+  const isConfigured = platformConfig !== null;
+  const connectedPlatforms: ProjectTool[] = selectConnectedPlatforms(credentials);
+  const hasConnection = connectedPlatforms.length > 0;
+  const trelloConfig = selectedTool === 'trello' ? selectCredentials(credentials, 'trello') : null;
+  const selectedBoardId = trelloConfig?.boardId || null;
 
   // Refs
   const recordingInterval = useRef<NodeJS.Timeout | null>(null);
   const audioRecorder = useRef<AudioRecorder>(new AudioRecorder());
+  // Set while push-to-talk is held, so releasing the key can wait for the microphone to open
+  const pushToTalkStart = useRef<Promise<void> | null>(null);
+  const recordingSession = useRef<ActiveSession | null>(null);
+  // Set while a part is being cut from the recording, so stopping waits for it
+  const pendingRollover = useRef<Promise<void> | null>(null);
+  // Parts of a session upload one after another, in the order they were recorded
+  const sessionUploads = useRef<Promise<void>>(Promise.resolve());
 
-  // Platform detection from navigation state or localStorage
-  useEffect(() => {
-    const state = location.state as { platform?: string; token?: string; config?: any };
-    
-    if (state && state.platform) {
-      setSelectedTool(state.platform as ProjectTool);
-      if (state.config) {
-        setPlatformConfig(state.config);
-        setIsConfigured(true);
-      }
-      addLog("info", `Connected to ${state.platform.charAt(0).toUpperCase() + state.platform.slice(1)}`);
-      return;
-    }
+  const { queued, enqueue, retry, discard, discardSession } = useOfflineQueue({
+    onDelivered: (data, item) => {
+      addLog("success", "Queued voice command delivered");
+      handleVoiceResponse(data, item.platform);
+    },
+    onFailed: (error) => {
+      addLog("warning", "Queued voice command failed again: " + error.message);
+    },
+    reviewPlatforms,
+  });
 
-    // Check localStorage for Linear/Asana config
-    const linearConfig = localStorage.getItem('linear_config');
-    if (linearConfig) {
-      try {
-        const config = JSON.parse(linearConfig);
-        setSelectedTool('linear');
-        setPlatformConfig(config);
-        setIsConfigured(true);
-        addLog("info", "Connected to Linear");
-        return;
-      } catch (e) {
-        console.error('Error parsing Linear config:', e);
-      }
-    }
+  // Pick up where the last session left off
+  useEffect(() => {
+    pruneActivityLog()
+      .then(() => listRecentActivity(RECENT_LOG_LIMIT))
+      .then((entries) => setLogs((prev) => mergeLogs(entries as LogEntry[], prev)))
+      .catch((error) => console.error("Error loading activity:", error));
+  }, []);
 
-    const asanaConfig = localStorage.getItem('asana_config');
-    if (asanaConfig) {
-      try {
-        const config = JSON.parse(asanaConfig);
-        setSelectedTool('asana');
-        setPlatformConfig(config);
-        setIsConfigured(true);
-        addLog("info", "Connected to Asana");
-        return;
-      } catch (e) {
-        console.error('Error parsing Asana config:', e);
-      }
-    }
+  // Platform detection: navigation state first, then the platform last connected
+  useEffect(() => {
+    const state = location.state as { platform?: string };
+    const platform = (state?.platform as ProjectTool) || credentialStore.getActivePlatform();
 
-    // Check cookies for legacy config
-    const apiKey = Cookies.get("apiKey");
-    const platform = Cookies.get("platform") as ProjectTool;
-    
     if (platform) {
-      if (platform === "trello") {
-        const token = Cookies.get("token");
-        const boardId = Cookies.get("boardId");
-        if (apiKey && token && boardId) {
-          setSelectedTool("trello");
-          setIsConfigured(true);
-          setPlatformConfig({ apiKey, token, boardId });
-          addLog("info", "Connected to Trello");
-          return;
-        }
-      } else if (platform === "linear") {
-        const workspaceId = Cookies.get("workspaceId");
-        if (apiKey && workspaceId) {
-          setSelectedTool("linear");
-          setIsConfigured(true);
-          setPlatformConfig({ apiKey, workspaceId });
-          addLog("info", "Connected to Linear");
-          return;
-        }
-      } else if (platform === "asana") {
-        const personalAccessToken = Cookies.get("personalAccessToken");
-        const projectId = Cookies.get("projectId");
-        if (personalAccessToken && projectId) {
-          setSelectedTool("asana");
-          setIsConfigured(true);
-          setPlatformConfig({ personalAccessToken, projectId });
-          addLog("info", "Connected to Asana");
-          return;
-        }
+      setSelectedTool(platform);
+      if (credentialStore.getCredentials(platform)) {
+        addLog("info", `Connected to ${platform.charAt(0).toUpperCase() + platform.slice(1)}`);
+        return;
       }
     }
 
@@ -154,28 +195,23 @@ const UnifiedDashboard = () => {
     addLog("info", "Voice Manager initialized - Please configure your platform");
   }, [location]);
 
+  // Fall back to auto routing if the targeted platform gets disconnected
+  useEffect(() => {
+    if (commandTarget !== "auto" && !connectedPlatforms.includes(commandTarget)) {
+      setCommandTarget("auto");
+    }
+  }, [commandTarget, connectedPlatforms]);
+
   // Fetch Trello boards when Trello is selected and token is present
   useEffect(() => {
     const fetchBoards = async () => {
       if (selectedTool === 'trello' && platformConfig && 'token' in platformConfig && 'apiKey' in platformConfig) {
         try {
-          console.log('Fetching Trello boards with:', platformConfig);
-          const res = await fetch(`https://api.trello.com/1/members/me/boards?key=${platformConfig.apiKey}&token=${platformConfig.token}`);
-          const boards = await res.json();
-          console.log('Fetched boards:', boards);
-          if (Array.isArray(boards)) {
-            setTrelloBoards(boards.map((b: any) => ({ id: b.id, name: b.name })));
-            setTrelloBoardError(null);
-          } else if (boards.message) {
-            setTrelloBoards([]);
-            setTrelloBoardError(boards.message);
-          } else {
-            setTrelloBoards([]);
-            setTrelloBoardError('Unknown error fetching boards');
-          }
-        } catch (e: any) {
+          setTrelloBoards(await fetchTrelloBoards(platformConfig.apiKey, platformConfig.token));
+          setTrelloBoardError(null);
+        } catch (e) {
           setTrelloBoards([]);
-          setTrelloBoardError(e.message || 'Failed to fetch Trello boards');
+          setTrelloBoardError((e as Error).message || 'Failed to fetch Trello boards');
           console.error('Error fetching Trello boards:', e);
         }
       } else {
@@ -186,12 +222,19 @@ const UnifiedDashboard = () => {
     fetchBoards();
   }, [selectedTool, platformConfig]);
 
-  // When board is selected, update config and cookies
+  // When board is selected, persist it with the Trello credentials
   const handleBoardSelect = (value: string) => {
-    setSelectedBoardId(value);
-    if (selectedTool === 'trello' && platformConfig && 'apiKey' in platformConfig && 'token' in platformConfig) {
-      setPlatformConfig({ ...platformConfig, boardId: value });
-      Cookies.set('boardId', value, { expires: 365 * 50 });
+    if (trelloConfig) {
+      credentialStore.updateCredentials('trello', { boardId: value });
+    }
+  };
+
+  // Defaults are stored per board alongside the board selection
+  const handleBoardDefaultsChange = (defaults: BoardDefaults) => {
+    if (trelloConfig && selectedBoardId) {
+      credentialStore.updateCredentials('trello', {
+        boardDefaults: { ...trelloConfig.boardDefaults, [selectedBoardId]: defaults },
+      });
     }
   };
 
@@ -202,84 +245,136 @@ const UnifiedDashboard = () => {
   ) => {
     const newLog: LogEntry = {
       id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-      timestamp: new Date().toLocaleTimeString(),
+      timestamp: new Date().toISOString(),
       type,
       message,
       ...(options?.details ? { details: options.details } : {}),
     };
     
-    setLogs((prev) => {
-      const updatedLogs = [newLog, ...prev].slice(0, 50);
-      return updatedLogs.sort((a, b) => {
-        const timeA = new Date(`1970-01-01 ${a.timestamp}`).getTime();
-        const timeB = new Date(`1970-01-01 ${b.timestamp}`).getTime();
-        return timeB - timeA;
-      });
-    });
+    setLogs((prev) => mergeLogs([newLog], prev));
+    persistLog(newLog);
   };
 
   const startRecording = async () => {
     try {
-      await audioRecorder.current.startRecording();
+      // Continuous mode cuts a segment on every pause and sends it straight away
+      await audioRecorder.current.startRecording({
+        deviceId,
+        ...(recordingMode === "continuous" ? { voiceActivity: { onSegment: sendSegment } } : {}),
+      });
       setRecordingStatus("recording");
+      // Device names only become available once microphone access has been granted
+      refreshMicrophones();
       setRecordingTime(0);
       addLog("info", `Listening...`);
 
+      recordingSession.current = null;
+      const rollsOver = recordingMode === "batch";
+      let elapsed = 0;
       recordingInterval.current = setInterval(() => {
-        setRecordingTime((prev) => prev + 1);
+        elapsed += 1;
+        setRecordingTime(elapsed);
+        if (rollsOver && elapsed % maxRecordingSeconds === 0) {
+          const rollover = rollOverRecording().finally(() => {
+            if (pendingRollover.current === rollover) {
+              pendingRollover.current = null;
+            }
+          });
+          pendingRollover.current = rollover;
+        }
       }, 1000);
     } catch (error) {
       addLog("error", "Failed to start recording: " + (error as Error).message);
     }
   };
 
-  const stopRecording = async () => {
+  // Batch limit reached: upload what we have as the next part and keep recording
+  const rollOverRecording = async () => {
     try {
-      const audioBlob = await audioRecorder.current.stopRecording();
-      setRecordingStatus("idle");
-      addLog("success", `Processing...`);
+      const partBlob = await audioRecorder.current.processSegment();
+      if (!recordingSession.current) {
+        recordingSession.current = {
+          id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+          nextPart: 0,
+          target: commandTarget,
+          queuedBecause: null,
+          failedBecause: null,
+        };
+        addLog("info", `Recording passed ${formatTime(maxRecordingSeconds)} - sending it in parts`);
+      }
+      sendSessionPart(partBlob, false);
+    } catch (error) {
+      addLog("error", "Failed to split recording: " + (error as Error).message);
+    }
+  };
+
+  const sendSessionPart = (partBlob: Blob, final: boolean) => {
+    const session = recordingSession.current;
+    const sessionPart: RecordingSession = { id: session.id, part: session.nextPart++, final };
+    const partLabel = `part ${sessionPart.part + 1}${final ? ", final" : ""}`;
+
+    sessionUploads.current = sessionUploads.current.then(async () => {
+      const audioId = await keepUtterance(partBlob);
+      addLog("voice", `Voice received (${partLabel})`, { details: audioId ? { audioId } : {} });
+      if (session.failedBecause) {
+        addLog("error", `Didn't send ${partLabel} because an earlier part failed: ${session.failedBecause.message}`);
+        return;
+      }
+      if (session.queuedBecause) {
+        await queueVoiceCommand(partBlob, session.queuedBecause, session.target, sessionPart);
+        return;
+      }
+      try {
+        const { platform, data } = await sendVoiceCommand(partBlob, session.target, selectedTool, reviewPlatforms, sessionPart);
+        session.target = platform;
+        handleVoiceResponse(data, platform, `Transcribed (${partLabel})`, audioId);
+      } catch (error) {
+        if (error instanceof AgilowNetworkError || error instanceof CredentialsLockedError) {
+          session.queuedBecause = error;
+          // Queued parts are delivered one by one, so they must all name the same platform
+          session.target = settleTarget(session.target, selectedTool) ?? session.target;
+          await queueVoiceCommand(partBlob, error, session.target, sessionPart);
+          return;
+        }
+        session.failedBecause = error as Error;
+        addLog("error", `Failed to send ${partLabel}: ` + (error as Error).message);
+      }
+    });
+  };
 
+  const stopRecording = async () => {
+    try {
       if (recordingInterval.current) {
         clearInterval(recordingInterval.current);
         recordingInterval.current = null;
       }
+      // A part still being cut opens the session this recording has to finish
+      await pendingRollover.current;
+
+      const audioBlob = await audioRecorder.current.stopRecording();
+      setRecordingStatus("idle");
+      addLog("success", `Processing...`);
       setRecordingTime(0);
 
-      addLog("voice", "Voice received", {});
+      // A session that already rolled over ends with this as its final part
+      if (recordingSession.current) {
+        sendSessionPart(audioBlob, true);
+        recordingSession.current = null;
+        return;
+      }
+
+      const audioId = await keepUtterance(audioBlob);
+      addLog("voice", "Voice received", { details: audioId ? { audioId } : {} });
 
       // Send audio to backend with platform context
       try {
-        const res = await sendAudioToBackend(audioBlob, selectedTool, platformConfig);
-        let data;
-        try {
-          data = await res.json();
-        } catch (e) {
-          addLog("error", "Failed to parse backend response as JSON");
+        const { platform, data } = await sendVoiceCommand(audioBlob, commandTarget, selectedTool, reviewPlatforms);
+        handleVoiceResponse(data, platform, "Transcribed", audioId);
+      } catch (error) {
+        if (error instanceof AgilowNetworkError || error instanceof CredentialsLockedError) {
+          await queueVoiceCommand(audioBlob, error);
           return;
         }
-        
-        if (data.transcript) {
-          addLog("transcribed", `Transcribed: ${data.transcript}`);
-          setLatestResponse(data.transcript);
-        }
-        
-        if (Array.isArray(data.results)) {
-          data.results.forEach((result) => {
-            if (result.success) {
-              addLog(
-                "task",
-                `Task ${result.operation === "create" ? "created" : result.operation}` + (result.task ? `: ${result.task}` : ""),
-                { details: { taskName: result.task, taskStatus: result.operation } }
-              );
-            } else {
-              addLog(
-                "error",
-                `Task operation failed${result.task ? ` for: ${result.task}` : ""}${result.error ? ` - ${result.error}` : ""}`
-              );
-            }
-          });
-        }
-      } catch (error) {
         addLog("error", "Failed to send audio: " + (error as Error).message);
       }
     } catch (error) {
@@ -288,47 +383,288 @@ const UnifiedDashboard = () => {
     }
   };
 
-  const handleToolChange = (value: ProjectTool) => {
-    setSelectedTool(value);
-    // Check for existing config in localStorage or cookies
-    if (value === 'linear') {
-      const linearConfig = localStorage.getItem('linear_config');
-      if (linearConfig) {
-        setPlatformConfig(JSON.parse(linearConfig));
-        setIsConfigured(true);
-        setShowConfigForm(false);
-        addLog('info', 'Loaded Linear config from localStorage');
-        return;
+  // Counts down to the next automatic upload of a long batch recording
+  const partSecondsLeft = maxRecordingSeconds - (recordingTime % maxRecordingSeconds);
+
+  // Stops the microphone and throws the audio away
+  const cancelRecording = () => {
+    audioRecorder.current.abort();
+    if (recordingInterval.current) {
+      clearInterval(recordingInterval.current);
+      recordingInterval.current = null;
+    }
+    setRecordingStatus("idle");
+    const duration = formatTime(recordingTime);
+    setRecordingTime(0);
+    const session = recordingSession.current;
+    const sentParts = session?.nextPart ?? 0;
+    recordingSession.current = null;
+    if (session && sentParts > 0) {
+      closeCancelledSession(session);
+    }
+    addLog(
+      "cancelled",
+      sentParts > 0
+        ? `Recording cancelled after ${duration}, the last part was not sent and the ${sentParts} earlier ${sentParts === 1 ? "part was" : "parts were"} dropped`
+        : `Recording cancelled after ${duration}, nothing was sent`
+    );
+  };
+
+  // Parts already sent stay open on the backend until it hears the session is over.
+  // Runs after the session's uploads, so the cancel can't overtake a part.
+  const closeCancelledSession = (session: ActiveSession) => {
+    sessionUploads.current = sessionUploads.current.then(async () => {
+      if (session.queuedBecause) {
+        await discardSession(session.id);
       }
-    } else if (value === 'asana') {
-      const asanaConfig = localStorage.getItem('asana_config');
-      if (asanaConfig) {
-        setPlatformConfig(JSON.parse(asanaConfig));
-        setIsConfigured(true);
-        setShowConfigForm(false);
-        addLog('info', 'Loaded Asana config from localStorage');
-        return;
+      try {
+        await agilowApi.cancelSession(session.id);
+      } catch (error) {
+        addLog("warning", "Couldn't close the cancelled recording on the server: " + (error as Error).message);
+      }
+    });
+  };
+
+  // Continuous mode: send what has been said so far without waiting for a pause
+  const flushSegment = async () => {
+    try {
+      const segmentBlob = await audioRecorder.current.processSegment();
+      if (segmentBlob.size > 0) {
+        await sendSegment(segmentBlob);
       }
-    } else if (value === 'trello') {
-      const apiKey = Cookies.get('apiKey');
-      const token = Cookies.get('token');
-      const boardId = Cookies.get('boardId');
-      if (apiKey && token && boardId) {
-        setPlatformConfig({ apiKey, token, boardId });
-        setIsConfigured(true);
-        setShowConfigForm(false);
-        addLog('info', 'Loaded Trello config from cookies');
+    } catch (error) {
+      addLog("error", "Failed to send segment: " + (error as Error).message);
+    }
+  };
+
+  useHotkeys(
+    hotkeys,
+    {
+      onPushToTalkStart: () => {
+        if (hasConnection && recordingStatus === "idle") {
+          pushToTalkStart.current = startRecording();
+        }
+      },
+      onPushToTalkEnd: async () => {
+        const starting = pushToTalkStart.current;
+        if (!starting) {
+          return;
+        }
+        pushToTalkStart.current = null;
+        await starting;
+        if (audioRecorder.current.isRecording()) {
+          stopRecording();
+        }
+      },
+      onToggleRecording: () => {
+        if (!hasConnection || pushToTalkStart.current) {
+          return;
+        }
+        if (recordingStatus === "idle") {
+          startRecording();
+        } else if (recordingStatus === "recording") {
+          stopRecording();
+        }
+      },
+      onCancelRecording: () => {
+        if (recordingStatus !== "recording") {
+          return false;
+        }
+        pushToTalkStart.current = null;
+        cancelRecording();
+        return true;
+      },
+      onFlushSegment: () => {
+        if (recordingMode === "continuous" && recordingStatus === "recording") {
+          flushSegment();
+        }
+      },
+    },
+    !showHotkeySettings
+  );
+
+  const sendSegment = async (segmentBlob: Blob) => {
+    const audioId = await keepUtterance(segmentBlob);
+    addLog("voice", "Voice received (segment)", { details: audioId ? { audioId } : {} });
+    try {
+      const { platform, data } = await sendVoiceCommand(segmentBlob, commandTarget, selectedTool, reviewPlatforms);
+      handleVoiceResponse(data, platform, "Transcribed (segment)", audioId);
+    } catch (error) {
+      if (error instanceof AgilowNetworkError || error instanceof CredentialsLockedError) {
+        await queueVoiceCommand(segmentBlob, error);
         return;
       }
+      addLog("error", "Failed to send segment: " + (error as Error).message);
+    }
+  };
+
+  const handleVoiceResponse = (
+    data: VoiceCommandResponse,
+    platform: ProjectTool | null,
+    transcriptLabel = "Transcribed",
+    audioId?: string | null
+  ) => {
+    const details = platform ? { platform } : undefined;
+    if (data.transcript) {
+      addLog("transcribed", `${transcriptLabel}: ${data.transcript}`, {
+        details: { ...details, transcription: data.transcript, ...(audioId ? { audioId } : {}) },
+      });
+      setLatestResponse(data.transcript);
+    }
+
+    // Review mode: nothing has been applied yet, so hold the proposals for approval
+    if (platform && data.proposals?.length) {
+      const review = { id: Date.now().toString(), platform, transcript: data.transcript, proposals: data.proposals };
+      setPendingReviews((prev) => [...prev, review]);
+      addLog("info", `${data.proposals.length} proposed operation(s) waiting for review`, { details });
+      return;
+    }
+
+    if (Array.isArray(data.results)) {
+      data.results.forEach((result) => {
+        if (result.success) {
+          const inverse = getInverseOperation(result);
+          addLog(
+            "task",
+            `Task ${result.operation === "create" ? "created" : result.operation}` + (result.task ? `: ${result.task}` : ""),
+            {
+              details: {
+                ...details,
+                taskName: result.task,
+                taskStatus: result.operation,
+                ...(inverse ? { undo: { entityId: result.entityId, inverse } } : {}),
+              },
+            }
+          );
+        } else {
+          addLog(
+            "error",
+            `Task operation failed${result.task ? ` for: ${result.task}` : ""}${result.error ? ` - ${result.error}` : ""}`,
+            { details }
+          );
+        }
+      });
+    }
+  };
+
+  const handleApplyReview = async (review: PendingReview, approved: ProposedOperation[]) => {
+    setIsApplyingReview(true);
+    try {
+      const data = await agilowApi.applyOperations(approved, review.platform, credentialStore.getCredentials(review.platform));
+      setPendingReviews((prev) => prev.filter((pending) => pending.id !== review.id));
+      handleVoiceResponse({ ...data, transcript: null }, review.platform);
+    } catch (error) {
+      addLog("error", "Failed to apply reviewed operations: " + (error as Error).message, { details: { platform: review.platform } });
+    } finally {
+      setIsApplyingReview(false);
+    }
+  };
+
+  const handleDiscardReview = (review: PendingReview) => {
+    setPendingReviews((prev) => prev.filter((pending) => pending.id !== review.id));
+    addLog("info", "Proposed operations discarded", { details: { platform: review.platform } });
+  };
+
+  // Sends fixed-up text instead of the audio; a spoken prefix in the text still picks the platform
+  const handleRerun = async (log: LogEntry, text: string) => {
+    const { platform: spoken, command } = parsePlatformPrefix(text);
+    const platform = spoken ?? log.details?.platform;
+    if (!platform || !command) {
+      return;
+    }
+    if (!connectedPlatforms.includes(platform)) {
+      addLog("error", `${PLATFORM_NAMES[platform]} isn't connected - corrected command was not sent`);
+      return;
+    }
+    setIsRerunning(true);
+    addLog("info", `Re-running corrected command: "${command}"`, { details: { platform } });
+    try {
+      const data = await agilowApi.sendText(command, platform, credentialStore.getCredentials(platform), {
+        review: reviewPlatforms.includes(platform),
+      });
+      setEditingTranscript(null);
+      handleVoiceResponse({ ...data, transcript: data.transcript ?? command }, platform, "Corrected", log.details?.audioId);
+    } catch (error) {
+      addLog("error", "Failed to re-run command: " + (error as Error).message, { details: { platform } });
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
+  // Typed commands follow the same target and routing rules as recordings
+  const handleTextCommand = async (text: string): Promise<boolean> => {
+    setIsSendingText(true);
+    try {
+      const { platform, data } = await sendTextCommand(text, commandTarget, selectedTool, reviewPlatforms);
+      handleVoiceResponse(data, platform, "Typed");
+      return true;
+    } catch (error) {
+      addLog("error", "Failed to send command: " + (error as Error).message);
+      return false;
+    } finally {
+      setIsSendingText(false);
+    }
+  };
+
+  const handleUndo = async (log: LogEntry) => {
+    const { undo, platform } = log.details ?? {};
+    if (!undo || !platform) {
+      return;
+    }
+    setUndoingLogId(log.id);
+    try {
+      const data = await agilowApi.undoTask(undo.entityId, undo.inverse, platform, credentialStore.getCredentials(platform));
+      const failed = data.success === false ? data : data.results?.find((result) => !result.success);
+      if (failed) {
+        throw new Error(failed.error || "The platform rejected the undo");
+      }
+      const undoneLog = { ...log, details: { ...log.details, undone: true } };
+      setLogs((prev) => prev.map((entry) => (entry.id === log.id ? undoneLog : entry)));
+      persistLog(undoneLog);
+      addLog("success", `Undone: ${log.message}`, { details: { platform } });
+    } catch (error) {
+      addLog("error", `Undo failed for "${log.message}": ${(error as Error).message}`, { details: { platform } });
+    } finally {
+      setUndoingLogId(null);
+    }
+  };
+
+  // Keep the recording instead of losing it when the backend can't be reached
+  const queueVoiceCommand = async (
+    audioBlob: Blob,
+    error: Error,
+    target: CommandTarget = commandTarget,
+    session?: RecordingSession
+  ) => {
+    try {
+      // Auto-routed commands are queued without a platform and routed on delivery
+      const platform = target === "auto" ? null : target;
+      await enqueue(audioBlob, platform, selectCredentials(credentials, platform), error.message, session);
+      addLog(
+        "queued",
+        error instanceof CredentialsLockedError
+          ? "Credentials locked - voice command queued and will be sent once you unlock"
+          : "Connection lost - voice command queued and will be retried when you're back online"
+      );
+    } catch (queueError) {
+      addLog("error", "Failed to send audio: " + error.message);
+      console.error("Error queueing voice command:", queueError);
+    }
+  };
+
+  const handleToolChange = (value: ProjectTool) => {
+    setSelectedTool(value);
+    if (credentialStore.getCredentials(value)) {
+      credentialStore.setActivePlatform(value);
+      setShowConfigForm(false);
+      addLog('info', `Loaded ${value.charAt(0).toUpperCase() + value.slice(1)} config`);
+      return;
     }
     setShowConfigForm(true);
-    setIsConfigured(false);
     addLog('info', `Selected ${value.charAt(0).toUpperCase() + value.slice(1)}`);
   };
 
   const handleConfigSave = (config: PlatformConfig) => {
-    setPlatformConfig(config);
-    setIsConfigured(true);
     setShowConfigForm(false);
     addLog("success", `${selectedTool?.charAt(0).toUpperCase() + selectedTool?.slice(1)} configuration saved successfully`);
   };
@@ -340,31 +676,17 @@ const UnifiedDashboard = () => {
     }
   };
 
-  const handleSwitchApp = () => {
-    setShowSwitchConfirm(true);
-  };
-
-  const confirmSwitchApp = () => {
-    // Only clear in-memory state and cookies, NOT localStorage configs
-    Cookies.remove('apiKey');
-    Cookies.remove('token');
-    Cookies.remove('boardId');
-    Cookies.remove('workspaceId');
-    Cookies.remove('personalAccessToken');
-    Cookies.remove('projectId');
-    Cookies.remove('platform');
-    
-    setSelectedTool(null);
-    setIsConfigured(false);
-    setPlatformConfig(null);
-    setShowSwitchConfirm(false);
-    
-    addLog("info", "Switched to different app");
+  // Connected platforms stay connected; this only adds another one
+  const handleAddPlatform = () => {
     navigate('/select-app');
   };
 
-  const cancelSwitchApp = () => {
-    setShowSwitchConfirm(false);
+  const handleDisconnect = (platform: ProjectTool) => {
+    credentialStore.clearCredentials(platform);
+    if (selectedTool === platform) {
+      setSelectedTool(connectedPlatforms.find((p) => p !== platform) ?? null);
+    }
+    addLog("info", `Disconnected ${PLATFORM_NAMES[platform]}`);
   };
 
   const getStatusColor = () => {
@@ -381,6 +703,11 @@ const UnifiedDashboard = () => {
     return `${mins.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
   };
 
+  const getPlatformIcon = (platform: ProjectTool, className = 'w-4 h-4') => {
+    const { Icon } = getPlatformAdapter(platform);
+    return <Icon className={`inline ${className}`} />;
+  };
+
   const getLogIcon = (type: LogEntry["type"]) => {
     switch (type) {
       case 'info': return <Info className="w-5 h-5 text-blue-500" />;
@@ -391,10 +718,89 @@ const UnifiedDashboard = () => {
       case 'transcribed': return <MessageCircle className="w-5 h-5 text-accent" />;
       case 'task': return <CheckCircle className="w-5 h-5 text-primary" />;
       case 'due-date': return <Info className="w-5 h-5 text-blue-400" />;
+      case 'queued': return <Clock className="w-5 h-5 text-orange-500" />;
+      case 'cancelled': return <X className="w-5 h-5 text-gray-400" />;
       default: return <Info className="w-5 h-5 text-gray-500" />;
     }
   };
 
+  const renderLogRow = (log: LogEntry, withDate = false) => (
+    <div key={log.id} className="flex items-start gap-3 text-sm">
+      <span className="mt-0.5">
+        {getLogIcon(log.type)}
+      </span>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="font-mono text-xs text-gray-500">
+            {withDate ? new Date(log.timestamp).toLocaleString() : new Date(log.timestamp).toLocaleTimeString()}
+          </span>
+          {log.type === 'task' && log.details?.taskStatus && (
+            <Badge variant="outline" className="text-xs">
+              {log.details.taskStatus}
+            </Badge>
+          )}
+          {log.details?.platform && (
+            <span className="flex items-center gap-1 text-xs text-gray-500">
+              {getPlatformIcon(log.details.platform, 'w-3 h-3')}
+              {PLATFORM_NAMES[log.details.platform]}
+            </span>
+          )}
+          {log.details?.undone && (
+            <Badge variant="outline" className="text-xs text-gray-500">undone</Badge>
+          )}
+          {log.details?.undo && !log.details.undone && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-6 px-2 text-xs text-blue-900"
+              onClick={() => handleUndo(log)}
+              disabled={undoingLogId === log.id}
+            >
+              <Undo2 className="w-3 h-3 mr-1" /> Undo
+            </Button>
+          )}
+          {log.type === 'transcribed' && log.details?.transcription && editingTranscript?.logId !== log.id && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-6 px-2 text-xs text-blue-900"
+              onClick={() => setEditingTranscript({ logId: log.id, text: log.details.transcription })}
+              title="Edit transcript and re-run"
+            >
+              <Pencil className="w-3 h-3 mr-1" /> Edit
+            </Button>
+          )}
+        </div>
+        {editingTranscript?.logId === log.id ? (
+          <form
+            className="mt-1 space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleRerun(log, editingTranscript.text);
+            }}
+          >
+            <Input
+              value={editingTranscript.text}
+              onChange={(e) => setEditingTranscript({ logId: log.id, text: e.target.value })}
+              autoFocus
+            />
+            <div className="flex gap-2">
+              <Button type="submit" size="sm" className="h-7 px-2 text-xs" disabled={isRerunning || !editingTranscript.text.trim()}>
+                Re-run
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setEditingTranscript(null)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <span className="text-gray-900">{log.message}</span>
+        )}
+        {log.details?.audioId && <UtterancePlayer audioId={log.details.audioId} />}
+      </div>
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-200 flex flex-col items-center justify-center p-8">
       <div className="w-full max-w-6xl grid grid-cols-1 md:grid-cols-3 gap-8">
@@ -402,7 +808,17 @@ const UnifiedDashboard = () => {
         <div className="col-span-1 space-y-8">
           {/* Workspace Card */}
           <div className="bg-white rounded-2xl shadow-lg p-6 mb-4">
-            <h2 className="text-xl font-bold mb-2">Workspace</h2>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-xl font-bold">Workspace</h2>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => setShowHotkeySettings(true)} className="text-blue-900">
+                  <Keyboard className="w-4 h-4 mr-1" /> Shortcuts
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setShowSecuritySettings(true)} className="text-blue-900">
+                  <Lock className="w-4 h-4 mr-1" /> Security
+                </Button>
+              </div>
+            </div>
             {/* Board selection for Trello */}
             {selectedTool === 'trello' && isConfigured && trelloBoards.length > 0 && (
               <div className="mt-4">
@@ -420,6 +836,15 @@ const UnifiedDashboard = () => {
                 {trelloBoardError && (
                   <div className="mt-2 text-sm text-red-500">{trelloBoardError}</div>
                 )}
+                {trelloConfig && selectedBoardId && (
+                  <TrelloBoardDefaults
+                    apiKey={trelloConfig.apiKey}
+                    token={trelloConfig.token}
+                    boardId={selectedBoardId}
+                    defaults={trelloConfig.boardDefaults?.[selectedBoardId] ?? {}}
+                    onChange={handleBoardDefaultsChange}
+                  />
+                )}
               </div>
             )}
             {selectedTool === 'trello' && isConfigured && trelloBoards.length === 0 && (
@@ -434,22 +859,63 @@ const UnifiedDashboard = () => {
           <div className="bg-white rounded-2xl shadow-lg p-6">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-2xl font-bold text-blue-900">Recording Mode</h2>
-              <Button variant="ghost" size="sm" onClick={handleSwitchApp} className="text-blue-900 font-semibold">
-                <RefreshCw className="w-5 h-5 mr-2" /> Switch App
+              <Button variant="ghost" size="sm" onClick={handleAddPlatform} className="text-blue-900 font-semibold">
+                <Plus className="w-5 h-5 mr-2" /> Add Platform
               </Button>
             </div>
             
-            {/* Platform Selection */}
+            {/* Connected Platforms */}
             <div className="mb-6">
-              <label className="block text-sm font-medium text-gray-700 mb-2">Platform</label>
-              <div className="flex items-center gap-2 py-2 px-3 bg-gray-100 rounded text-gray-700 font-medium">
-                {selectedTool === 'trello' && <Trello className="inline w-4 h-4 mr-2" />} 
-                {selectedTool === 'linear' && <img src={linearLogo} alt="Linear" className="inline w-4 h-4 mr-2" />} 
-                {selectedTool === 'asana' && <Notebook className="inline w-4 h-4 mr-2" />} 
-                {selectedTool ? selectedTool.charAt(0).toUpperCase() + selectedTool.slice(1) : 'None'}
+              <label className="block text-sm font-medium text-gray-700 mb-2">Connected Platforms</label>
+              <div className="space-y-2">
+                {connectedPlatforms.map((platform) => (
+                  <div
+                    key={platform}
+                    className={`flex items-center gap-2 py-2 px-3 rounded text-gray-700 font-medium cursor-pointer ${selectedTool === platform ? 'bg-blue-100' : 'bg-gray-100'}`}
+                    onClick={() => handleToolChange(platform)}
+                  >
+                    {getPlatformIcon(platform)}
+                    <span className="flex-1">{PLATFORM_NAMES[platform]}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-1 text-gray-500"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDisconnect(platform);
+                      }}
+                      disabled={recordingStatus !== 'idle'}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                {!hasConnection && (
+                  <div className="py-2 px-3 bg-gray-100 rounded text-gray-700 font-medium">None</div>
+                )}
               </div>
-              {/* Edit Config button for Linear and Asana */}
-              {selectedTool && isConfigured && (selectedTool === 'linear' || selectedTool === 'asana') && (
+              {hasConnection && (
+                <div className="mt-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Send commands to</label>
+                  <Select
+                    value={commandTarget}
+                    onValueChange={(value) => setCommandTarget(value as CommandTarget)}
+                    disabled={recordingStatus !== 'idle'}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Auto (say "in Linear, ...")</SelectItem>
+                      {connectedPlatforms.map((platform) => (
+                        <SelectItem key={platform} value={platform}>{PLATFORM_NAMES[platform]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {/* Edit Config button for everything except Trello, which uses OAuth */}
+              {selectedTool && isConfigured && selectedTool !== 'trello' && (
                 <Button
                   className="mt-2 w-full bg-blue-600 hover:bg-blue-700"
                   onClick={() => setShowConfigForm(true)}
@@ -459,6 +925,17 @@ const UnifiedDashboard = () => {
               )}
             </div>
 
+            {microphones.length > 0 && (
+              <div className="mb-6">
+                <MicrophoneSelect
+                  microphones={microphones}
+                  deviceId={deviceId}
+                  onSelect={selectMicrophone}
+                  disabled={recordingStatus !== 'idle'}
+                />
+              </div>
+            )}
+
             <div className="flex gap-4 mb-6">
               <Button
                 variant={recordingMode === 'batch' ? 'default' : 'outline'}
@@ -476,13 +953,43 @@ const UnifiedDashboard = () => {
               >
                 Continuous
               </Button>
+              {selectedTool && (
+                <Button
+                  variant={reviewPlatforms.includes(selectedTool) ? 'default' : 'outline'}
+                  className={reviewPlatforms.includes(selectedTool) ? 'bg-blue-900 text-white' : ''}
+                  onClick={() => toggleReview(selectedTool)}
+                  title={`Confirm ${PLATFORM_NAMES[selectedTool]} operations before they are applied`}
+                >
+                  Review
+                </Button>
+              )}
             </div>
+
+            {recordingMode === 'batch' && (
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Upload in parts after</label>
+                <Select
+                  value={String(maxRecordingSeconds)}
+                  onValueChange={(value) => setMaxRecordingSeconds(Number(value))}
+                  disabled={recordingStatus !== 'idle'}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RECORDING_LIMIT_OPTIONS.map((seconds) => (
+                      <SelectItem key={seconds} value={String(seconds)}>{seconds / 60} {seconds === 60 ? 'minute' : 'minutes'}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             
             <div className="mb-6">
               <Button
                 onClick={recordingStatus === 'idle' ? startRecording : stopRecording}
                 className={recordingStatus === 'idle' ? 'bg-blue-400 text-white w-full py-4 text-lg' : 'bg-red-500 text-white w-full py-4 text-lg'}
-                disabled={!isConfigured}
+                disabled={!hasConnection}
               >
                 {recordingStatus === 'idle' ? (
                   <><Mic className="w-6 h-6 inline-block mr-2" /> Start Recording</>
@@ -490,21 +997,41 @@ const UnifiedDashboard = () => {
                   <><Square className="w-6 h-6 inline-block mr-2" /> Stop Recording</>
                 )}
               </Button>
-              {!isConfigured && (
+              {recordingStatus === 'recording' && (
+                <Button variant="outline" className="w-full mt-2" onClick={cancelRecording}>
+                  <X className="w-4 h-4 mr-2" /> Cancel without sending
+                </Button>
+              )}
+              {hasConnection && (
+                <div className="mt-2 text-xs text-gray-500 text-center">
+                  Hold {formatBinding(hotkeys.pushToTalk)} to talk · {formatBinding(hotkeys.cancelRecording)} cancels
+                </div>
+              )}
+              {!hasConnection && (
                 <div className="mt-4 p-3 bg-yellow-100 text-yellow-800 rounded-lg text-center text-sm">
                   Please configure your project tool before recording.
                 </div>
               )}
             </div>
+
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Or type a command</label>
+              <CommandBar disabled={!hasConnection} isSending={isSendingText} onSubmit={handleTextCommand} />
+            </div>
             
             <div className="space-y-2 text-blue-900 text-base">
               <div>Mode: <span className="font-semibold">{recordingMode.charAt(0).toUpperCase() + recordingMode.slice(1)}</span></div>
-              <div>Tool: <span className="font-semibold">{selectedTool ? selectedTool.charAt(0).toUpperCase() + selectedTool.slice(1) : 'None'}</span></div>
+              <div>Target: <span className="font-semibold">{commandTarget === 'auto' ? 'Auto' : PLATFORM_NAMES[commandTarget]}</span></div>
               <div>Status: <span className={`font-semibold ${getStatusColor()}`}>{recordingStatus.charAt(0).toUpperCase() + recordingStatus.slice(1)}</span></div>
-              <div>Configured: <span className="font-semibold">{isConfigured ? 'Yes' : 'No'}</span></div>
+              <div>Configured: <span className="font-semibold">{hasConnection ? 'Yes' : 'No'}</span></div>
               {recordingStatus === 'recording' && (
                 <div>Recording Time: <span className="font-mono">{formatTime(recordingTime)}</span></div>
               )}
+              {recordingStatus === 'recording' && recordingMode === 'batch' && (
+                <div>
+                  Next upload in: <span className="font-mono">{formatTime(partSecondsLeft)}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -522,6 +1049,11 @@ const UnifiedDashboard = () => {
                 {recordingStatus === 'recording' && 'Recording...'}
                 {recordingStatus === 'processing' && 'Processing...'}
               </div>
+              {recordingStatus === 'recording' && (
+                <div className="w-full flex justify-center mb-3">
+                  <InputLevelMeter recorder={audioRecorder.current} active={recordingStatus === 'recording'} />
+                </div>
+              )}
               <div className="text-sm text-gray-600 text-center max-w-xs">
                 {latestResponse}
               </div>
@@ -532,35 +1064,126 @@ const UnifiedDashboard = () => {
         {/* Right: Recent Actions */}
         <div className="col-span-1 space-y-8">
           <div className="bg-white rounded-2xl shadow-lg p-6 h-full">
-            <h2 className="text-2xl font-bold text-blue-900 mb-4">Recent Actions</h2>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-2xl font-bold text-blue-900">Recent Actions</h2>
+              <div className="flex">
+                <Button variant="ghost" size="sm" onClick={() => setShowHistory(true)} className="text-blue-900">
+                  <History className="w-4 h-4 mr-1" /> History
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setShowExport(true)} className="text-blue-900">
+                  <Download className="w-4 h-4 mr-1" /> Export
+                </Button>
+              </div>
+            </div>
             <div className="space-y-4 max-h-96 overflow-y-auto">
-              {logs.length === 0 && <div className="text-gray-400">No actions yet.</div>}
-              {logs.map(log => (
-                <div key={log.id} className="flex items-start gap-3 text-sm">
+              {queued.map(item => (
+                <div key={item.id} className="flex items-start gap-3 text-sm p-2 rounded-lg bg-orange-50">
                   <span className="mt-0.5">
-                    {getLogIcon(log.type)}
+                    {getLogIcon('queued')}
                   </span>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
-                      <span className="font-mono text-xs text-gray-500">{log.timestamp}</span>
-                      {log.type === 'task' && log.details?.taskStatus && (
-                        <Badge variant="outline" className="text-xs">
-                          {log.details.taskStatus}
-                        </Badge>
-                      )}
+                      <span className="font-mono text-xs text-gray-500">{new Date(item.createdAt).toLocaleTimeString()}</span>
+                      <Badge variant="outline" className="text-xs text-orange-600 border-orange-300">queued</Badge>
+                      <span className="text-xs text-gray-500">{item.platform ? PLATFORM_NAMES[item.platform] : 'auto'}</span>
+                    </div>
+                    <span className="text-gray-900">
+                      Voice command waiting to be sent{item.attempts > 0 ? ` (${item.attempts} failed ${item.attempts === 1 ? 'attempt' : 'attempts'})` : ''}
+                    </span>
+                    {item.lastError && (
+                      <div className="text-xs text-gray-500 truncate">{item.lastError}</div>
+                    )}
+                    <div className="flex gap-2 mt-1">
+                      <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => retry(item.id)}>
+                        <RefreshCw className="w-3 h-3 mr-1" /> Retry
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-red-600" onClick={() => discard(item.id)}>
+                        <Trash2 className="w-3 h-3 mr-1" /> Discard
+                      </Button>
                     </div>
-                    <span className="text-gray-900">{log.message}</span>
                   </div>
                 </div>
               ))}
+              {logs.length === 0 && queued.length === 0 && <div className="text-gray-400">No actions yet.</div>}
+              {logs.map(log => renderLogRow(log))}
             </div>
           </div>
         </div>
       </div>
 
+      {/* Shortcuts Modal */}
+      {showHotkeySettings && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-lg p-8 max-w-lg w-full">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold">Keyboard Shortcuts</h3>
+              <Button variant="ghost" size="sm" onClick={() => setShowHotkeySettings(false)}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+            <HotkeySettings bindings={hotkeys} onRebind={rebind} onReset={resetBindings} />
+          </div>
+        </div>
+      )}
+
+      {/* History Modal */}
+      {showHistory && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-lg p-8 max-w-2xl w-full">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold">Activity History</h3>
+              <Button variant="ghost" size="sm" onClick={() => setShowHistory(false)}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+            <ActivityHistory renderEntry={(entry) => renderLogRow(entry as LogEntry, true)} refreshKey={logs} />
+          </div>
+        </div>
+      )}
+
+      {/* Export Modal */}
+      {showExport && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-lg p-8 max-w-md w-full">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold">Export Activity</h3>
+              <Button variant="ghost" size="sm" onClick={() => setShowExport(false)}>
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+            <ActivityExport onExported={() => setShowExport(false)} />
+          </div>
+        </div>
+      )}
+
+      {/* Review Modal: one command at a time, oldest first */}
+      {pendingReviews.length > 0 && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-lg p-8 max-w-lg w-full">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold">
+                Review {PLATFORM_NAMES[pendingReviews[0].platform]} changes
+                {pendingReviews.length > 1 && (
+                  <span className="ml-2 text-sm font-normal text-gray-500">+{pendingReviews.length - 1} more</span>
+                )}
+              </h3>
+            </div>
+            <ProposedOperationsReview
+              key={pendingReviews[0].id}
+              platformName={PLATFORM_NAMES[pendingReviews[0].platform]}
+              transcript={pendingReviews[0].transcript}
+              proposals={pendingReviews[0].proposals}
+              isApplying={isApplyingReview}
+              onApply={(approved) => handleApplyReview(pendingReviews[0], approved)}
+              onDiscard={() => handleDiscardReview(pendingReviews[0])}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Configuration Modal */}
       {showConfigForm && selectedTool && (
-        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
           <div className="bg-white rounded-xl shadow-lg p-8 max-w-md w-full">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-xl font-bold">Configure {selectedTool.charAt(0).toUpperCase() + selectedTool.slice(1)}</h3>
@@ -577,16 +1200,17 @@ const UnifiedDashboard = () => {
         </div>
       )}
 
-      {/* Switch App Confirmation Modal */}
-      {showSwitchConfirm && (
-        <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
-          <div className="bg-white rounded-xl shadow-lg p-8 max-w-sm w-full text-center">
-            <h3 className="text-xl font-bold mb-4">Switch App?</h3>
-            <p className="mb-6">Are you sure you want to switch to a different app? Your current session will be cleared.</p>
-            <div className="flex gap-4 justify-center">
-              <Button onClick={confirmSwitchApp} className="bg-blue-900 text-white">Yes, Switch</Button>
-              <Button onClick={cancelSwitchApp} variant="outline">Cancel</Button>
+      {/* Security Settings Modal */}
+      {showSecuritySettings && (
+        <div role="dialog" aria-modal="true" className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-lg p-8 max-w-md w-full">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold">Credential Security</h3>
+              <Button variant="ghost" size="sm" onClick={() => setShowSecuritySettings(false)}>
+                <X className="w-5 h-5" />
+              </Button>
             </div>
+            <SecuritySettings />
           </div>
         </div>
       )}
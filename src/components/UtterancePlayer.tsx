@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from "react";
+import { Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getUtterance } from "@/lib/utteranceStore";
+
+interface UtterancePlayerProps {
+  audioId: string;
+}
+
+// Loads the recording only when asked, so a long log doesn't hold every blob in memory
+const UtterancePlayer: React.FC<UtterancePlayerProps> = ({ audioId }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    return () => {
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [url]);
+
+  const handleLoad = async () => {
+    try {
+      const audio = await getUtterance(audioId);
+      if (audio) {
+        setUrl(URL.createObjectURL(audio));
+      } else {
+        setIsMissing(true);
+      }
+    } catch (error) {
+      console.error("Error loading recording:", error);
+      setIsMissing(true);
+    }
+  };
+
+  if (isMissing) {
+    return <div className="text-xs text-gray-400">Recording no longer available</div>;
+  }
+
+  if (!url) {
+    return (
+      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-blue-900" onClick={handleLoad}>
+        <Play className="w-3 h-3 mr-1" /> Play
+      </Button>
+    );
+  }
+
+  return <audio src={url} controls autoPlay className="h-8 w-full max-w-xs" />;
+};
+
+export default UtterancePlayer;
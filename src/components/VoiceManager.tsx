@@ -11,21 +11,22 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Play, CircleStop, Trello, Notebook, Zap, List, Mic } from "lucide-react";
+import { Play, CircleStop, List, Mic, X } from "lucide-react";
 import ConfigurationForm from "./ConfigurationForm";
-import { AudioRecorder, sendAudioToBackend } from "../utils/audioRecorder";
+import { AudioRecorder } from "../utils/audioRecorder";
+import { agilowApi, type PlatformConfig, type ProjectTool } from "@/lib/agilowApi";
 import logo from "../assets/agilow-logo.jpeg";
-import linearLogo from "../assets/linear-logo.svg";
-import Cookies from "js-cookie";
+import { credentialStore, selectCredentials } from "@/lib/credentialStore";
+import { useCredentials } from "@/hooks/useCredentials";
+import { platformAdapters } from "@/lib/platforms";
 
-type ProjectTool = "trello" | "linear" | "asana" | "notion";
 type RecordingMode = "batch" | "continuous";
 type RecordingStatus = "idle" | "recording" | "processing";
 
 interface LogEntry {
   id: string;
   timestamp: string;
-  type: "info" | "success" | "warning" | "error" | "voice" | "transcribed" | "task" | "due-date";
+  type: "info" | "success" | "warning" | "error" | "voice" | "transcribed" | "task" | "due-date" | "cancelled";
   message: string;
   details?: {
     transcription?: string;
@@ -35,24 +36,6 @@ interface LogEntry {
   };
 }
 
-interface TrelloConfig {
-  apiKey: string;
-  token: string;
-  boardId: string;
-}
-
-interface LinearConfig {
-  apiKey: string;
-  workspaceId: string;
-}
-
-interface AsanaConfig {
-  personalAccessToken: string;
-  projectId: string;
-}
-
-type PlatformConfig = TrelloConfig | LinearConfig | AsanaConfig;
-
 const VoiceManager = () => {
   const [selectedTool, setSelectedTool] = useState<ProjectTool | null>(null);
   const [recordingMode, setRecordingMode] = useState<RecordingMode>("batch");
@@ -61,8 +44,9 @@ const VoiceManager = () => {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [recordingTime, setRecordingTime] = useState(0);
   const [showConfigForm, setShowConfigForm] = useState(false);
-  const [isConfigured, setIsConfigured] = useState(false);
-  const [platformConfig, setPlatformConfig] = useState<PlatformConfig | null>(null);
+  const credentials = useCredentials();
+  const platformConfig = selectCredentials(credentials, selectedTool);
+  const isConfigured = platformConfig !== null;
 
   const recordingInterval = useRef<NodeJS.Timeout | null>(null);
   const audioRecorder = useRef<AudioRecorder>(new AudioRecorder());
@@ -92,7 +76,10 @@ const VoiceManager = () => {
 
   const startRecording = async () => {
     try {
-      await audioRecorder.current.startRecording();
+      // Continuous mode cuts a segment on every pause; Process Segment still forces a cut
+      await audioRecorder.current.startRecording(
+        recordingMode === "continuous" ? { voiceActivity: { onSegment: sendSegment } } : undefined
+      );
       setRecordingStatus("recording");
       setRecordingTime(0);
       addLog("info", `Listening...`);
@@ -125,14 +112,7 @@ const VoiceManager = () => {
 
       // Send audio to backend
       try {
-        const res = await sendAudioToBackend(audioBlob, selectedTool, platformConfig);
-        let data;
-        try {
-          data = await res.json();
-        } catch (e) {
-          addLog("error", "Failed to parse backend response as JSON");
-          return;
-        }
+        const data = await agilowApi.sendAudio(audioBlob, selectedTool, platformConfig);
         // Add log: Transcription
         if (data.transcript) {
           addLog("transcribed", `Transcribed: ${data.transcript}`);
@@ -163,6 +143,49 @@ const VoiceManager = () => {
     }
   };
 
+  const sendSegment = async (segmentBlob: Blob) => {
+    // Send segment to backend
+    try {
+      const data = await agilowApi.sendAudio(segmentBlob, selectedTool, platformConfig);
+      if (data.transcript) {
+        // Get recording stats after processing
+        const statsAfter = audioRecorder.current.getRecordingStats();
+        addLog("transcribed", `Transcribed (segment): ${data.transcript}`);
+        addLog("info", `Stats: ${statsAfter.totalChunks} total chunks, ${statsAfter.processedChunks} processed`);
+      }
+      if (Array.isArray(data.results)) {
+        data.results.forEach((result) => {
+          if (result.success) {
+            addLog(
+              "task",
+              `Task ${result.operation === "create" ? "created" : result.operation}` + (result.task ? `: ${result.task}` : ""),
+              { details: { taskName: result.task, taskStatus: result.operation } }
+            );
+          } else {
+            addLog(
+              "error",
+              `Task operation failed${result.task ? ` for: ${result.task}` : ""}${result.error ? ` - ${result.error}` : ""}`
+            );
+          }
+        });
+      }
+    } catch (error) {
+      addLog("error", "Failed to send segment: " + (error as Error).message);
+    }
+  };
+
+  // Discards the recording, e.g. after a false start
+  const cancelRecording = () => {
+    audioRecorder.current.abort();
+    if (recordingInterval.current) {
+      clearInterval(recordingInterval.current);
+      recordingInterval.current = null;
+    }
+    setRecordingStatus("idle");
+    addLog("cancelled", `Recording cancelled after ${formatTime(recordingTime)}, nothing was sent`);
+    setRecordingTime(0);
+  };
+
   const processSegment = async () => {
     try {
       setRecordingStatus("processing");
@@ -172,42 +195,7 @@ const VoiceManager = () => {
       addLog("info", `Processing audio segment... (${statsBefore.unprocessedChunks} new chunks)`);
 
       const segmentBlob = await audioRecorder.current.processSegment();
-
-      // Send segment to backend
-      try {
-        const res = await sendAudioToBackend(segmentBlob, selectedTool, platformConfig);
-        let data;
-        try {
-          data = await res.json();
-        } catch (e) {
-          addLog("error", "Failed to parse");
-          return;
-        }
-        if (data.transcript) {
-          // Get recording stats after processing
-          const statsAfter = audioRecorder.current.getRecordingStats();
-          addLog("transcribed", `Transcribed (segment): ${data.transcript}`);
-          addLog("info", `Stats: ${statsAfter.totalChunks} total chunks, ${statsAfter.processedChunks} processed`);
-        }
-        if (Array.isArray(data.results)) {
-          data.results.forEach((result) => {
-            if (result.success) {
-              addLog(
-                "task",
-                `Task ${result.operation === "create" ? "created" : result.operation}` + (result.task ? `: ${result.task}` : ""),
-                { details: { taskName: result.task, taskStatus: result.operation } }
-              );
-            } else {
-              addLog(
-                "error",
-                `Task operation failed${result.task ? ` for: ${result.task}` : ""}${result.error ? ` - ${result.error}` : ""}`
-              );
-            }
-          });
-        }
-      } catch (error) {
-        addLog("error", "Failed to send segment: " + (error as Error).message);
-      }
+      await sendSegment(segmentBlob);
 
       setRecordingStatus("recording");
     } catch (error) {
@@ -219,7 +207,6 @@ const VoiceManager = () => {
   const handleToolChange = (value: ProjectTool) => {
     setSelectedTool(value);
     setShowConfigForm(true);
-    setIsConfigured(false);
     addLog(
       "info",
       `Selected ${value.charAt(0).toUpperCase() + value.slice(1)}`
@@ -227,8 +214,6 @@ const VoiceManager = () => {
   };
 
   const handleConfigSave = (config: PlatformConfig) => {
-    setPlatformConfig(config);
-    setIsConfigured(true);
     setShowConfigForm(false);
     addLog("success", `${selectedTool?.charAt(0).toUpperCase() + selectedTool?.slice(1)} configuration saved successfully`);
   };
@@ -249,40 +234,11 @@ const VoiceManager = () => {
   };
 
   useEffect(() => {
-    // Check for saved credentials in cookies
-    const apiKey = Cookies.get("apiKey");
-    const personalAccessToken = Cookies.get("personalAccessToken");
-    const platform = Cookies.get("platform") as ProjectTool;
-    
-    if (platform) {
-      if (platform === "trello") {
-        const token = Cookies.get("token");
-        const boardId = Cookies.get("boardId");
-        // Use API key from cookies or fallback to environment variable
-        const trelloApiKey = apiKey || import.meta.env.VITE_TRELLO_APP_KEY;
-        if (trelloApiKey && token && boardId) {
-          setSelectedTool("trello");
-          setIsConfigured(true);
-          setPlatformConfig({ apiKey: trelloApiKey, token, boardId });
-          setShowConfigForm(false);
-        }
-      } else if (platform === "linear") {
-        const workspaceId = Cookies.get("workspaceId");
-        if (apiKey && workspaceId) {
-          setSelectedTool("linear");
-          setIsConfigured(true);
-          setPlatformConfig({ apiKey, workspaceId });
-          setShowConfigForm(false);
-        }
-      } else if (platform === "asana") {
-        const projectId = Cookies.get("projectId");
-        if (personalAccessToken && projectId) {
-          setSelectedTool("asana");
-          setIsConfigured(true);
-          setPlatformConfig({ personalAccessToken, projectId });
-          setShowConfigForm(false);
-        }
-      }
+    // Check for saved credentials
+    const platform = credentialStore.getActivePlatform();
+    if (platform && credentialStore.getCredentials(platform)) {
+      setSelectedTool(platform);
+      setShowConfigForm(false);
     } else {
       setShowConfigForm(true);
     }
@@ -365,22 +321,12 @@ const VoiceManager = () => {
                         <SelectValue placeholder="Select Tool" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="trello">
-                          <Trello className="inline w-4 h-4 mr-2" />
-                          Trello
-                        </SelectItem>
-                        <SelectItem value="linear">
-                          <img src={linearLogo} alt="Linear" className="inline w-4 h-4 mr-2" />
-                          Linear
-                        </SelectItem>
-                        <SelectItem value="asana">
-                          <Zap className="inline w-4 h-4 mr-2" />
-                          Asana
-                        </SelectItem>
-                        <SelectItem value="notion">
-                          <Notebook className="inline w-4 h-4 mr-2" />
-                          Notion
-                        </SelectItem>
+                        {platformAdapters.map(({ id, name, Icon }) => (
+                          <SelectItem key={id} value={id}>
+                            <Icon className="inline w-4 h-4 mr-2" />
+                            {name}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </CardContent>
@@ -464,6 +410,14 @@ const VoiceManager = () => {
                       <CircleStop className="w-4 h-4 mr-2" />
                       Stop Recording
                     </Button>
+                    <Button
+                      onClick={cancelRecording}
+                      disabled={recordingStatus !== "recording"}
+                      variant="ghost"
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
                     {recordingMode === "continuous" && (
                       <Button
                         onClick={processSegment}
@@ -4,8 +4,13 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { Play, CircleStop, Mic, Loader2 } from "lucide-react";
-import { AudioRecorder, sendAudioToBackend } from "../utils/audioRecorder";
+import { Play, CircleStop, Mic, Loader2, X } from "lucide-react";
+import { AudioRecorder } from "../utils/audioRecorder";
+import { agilowApi, type ProjectTool } from "@/lib/agilowApi";
+import { credentialStore } from "@/lib/credentialStore";
+import { useMicrophones } from "@/hooks/useMicrophones";
+import InputLevelMeter from "./InputLevelMeter";
+import MicrophoneSelect from "./MicrophoneSelect";
 
 type RecordingMode = "batch" | "continuous";
 type RecordingStatus = "idle" | "recording" | "processing";
@@ -13,7 +18,7 @@ type RecordingStatus = "idle" | "recording" | "processing";
 interface LogEntry {
   id: string;
   timestamp: string;
-  type: "info" | "success" | "warning" | "error" | "voice" | "transcribed" | "task" | "due-date";
+  type: "info" | "success" | "warning" | "error" | "voice" | "transcribed" | "task" | "due-date" | "cancelled";
   message: string;
   details?: {
     transcription?: string;
@@ -27,13 +32,16 @@ interface VoiceManagerProps {
   platform?: string;
   selectedBoard?: string;
   boards?: any[];
+  // Called after a voice command changed at least one task
+  onResult?: () => void;
 }
 
-const VoiceManagerNew = ({ platform, selectedBoard, boards }: VoiceManagerProps) => {
+const VoiceManagerNew = ({ platform, selectedBoard, boards, onResult }: VoiceManagerProps) => {
   const [recordingMode, setRecordingMode] = useState<RecordingMode>("batch");
   const [recordingStatus, setRecordingStatus] = useState<RecordingStatus>("idle");
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [recordingTime, setRecordingTime] = useState(0);
+  const { microphones, deviceId, selectMicrophone, refresh: refreshMicrophones } = useMicrophones();
 
   const recordingInterval = useRef<NodeJS.Timeout | null>(null);
   const audioRecorder = useRef<AudioRecorder>(new AudioRecorder());
@@ -62,8 +70,10 @@ const VoiceManagerNew = ({ platform, selectedBoard, boards }: VoiceManagerProps)
 
   const startRecording = async () => {
     try {
-      await audioRecorder.current.startRecording();
+      await audioRecorder.current.startRecording({ deviceId });
       setRecordingStatus("recording");
+      // Device names only become available once microphone access has been granted
+      refreshMicrophones();
       setRecordingTime(0);
       addLog("info", `Listening...`);
 
@@ -91,21 +101,11 @@ const VoiceManagerNew = ({ platform, selectedBoard, boards }: VoiceManagerProps)
 
       // Send audio to backend with platform context
       try {
-        const platformConfig = platform === 'trello' ? {
-          platform: 'trello',
-          apiKey: import.meta.env.VITE_TRELLO_APP_KEY,
-          boardId: selectedBoard,
-          token: localStorage.getItem('trello_token')
-        } : null;
+        // Stored Trello settings (board defaults included) for the board picked on the dashboard
+        const trelloConfig = platform === 'trello' ? credentialStore.getCredentials('trello') : null;
+        const platformConfig = trelloConfig ? { ...trelloConfig, boardId: selectedBoard || trelloConfig.boardId } : null;
 
-        const res = await sendAudioToBackend(audioBlob, platform, platformConfig);
-        let data;
-        try {
-          data = await res.json();
-        } catch (e) {
-          addLog("error", "Failed to parse backend response as JSON");
-          return;
-        }
+        const data = await agilowApi.sendAudio(audioBlob, platform as ProjectTool, platformConfig);
         
         if (data.transcript) {
           addLog("transcribed", `Transcribed: ${data.transcript}`);
@@ -126,6 +126,9 @@ const VoiceManagerNew = ({ platform, selectedBoard, boards }: VoiceManagerProps)
               );
             }
           });
+          if (data.results.some((result) => result.success)) {
+            onResult?.();
+          }
         }
       } catch (error) {
         addLog("error", "Failed to send audio: " + (error as Error).message);
@@ -158,6 +161,18 @@ const VoiceManagerNew = ({ platform, selectedBoard, boards }: VoiceManagerProps)
     }
   };
 
+  // Discards the recording, e.g. after a false start
+  const cancelRecording = () => {
+    audioRecorder.current.abort();
+    if (recordingInterval.current) {
+      clearInterval(recordingInterval.current);
+      recordingInterval.current = null;
+    }
+    setRecordingStatus("idle");
+    addLog("cancelled", `Recording cancelled after ${formatTime(recordingTime)}, nothing was sent`);
+    setRecordingTime(0);
+  };
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -178,6 +193,8 @@ const VoiceManagerNew = ({ platform, selectedBoard, boards }: VoiceManagerProps)
         return "✅";
       case "warning":
         return "⚠️";
+      case "cancelled":
+        return "🚫";
       default:
         return "ℹ️";
     }
@@ -197,6 +214,8 @@ const VoiceManagerNew = ({ platform, selectedBoard, boards }: VoiceManagerProps)
         return "text-purple-600";
       case "task":
         return "text-green-600";
+      case "cancelled":
+        return "text-gray-400";
       default:
         return "text-gray-600";
     }
@@ -245,6 +264,17 @@ const VoiceManagerNew = ({ platform, selectedBoard, boards }: VoiceManagerProps)
             </div>
           </div>
 
+          {microphones.length > 0 && (
+            <div className="mb-6">
+              <MicrophoneSelect
+                microphones={microphones}
+                deviceId={deviceId}
+                onSelect={selectMicrophone}
+                disabled={recordingStatus !== "idle"}
+              />
+            </div>
+          )}
+
           <div className="flex justify-center">
             <Button
               onClick={recordingStatus === "idle" ? startRecording : stopRecording}
@@ -265,6 +295,21 @@ const VoiceManagerNew = ({ platform, selectedBoard, boards }: VoiceManagerProps)
             </Button>
           </div>
 
+          {recordingStatus === "recording" && (
+            <div className="flex justify-center mt-4">
+              <InputLevelMeter recorder={audioRecorder.current} active={recordingStatus === "recording"} />
+            </div>
+          )}
+
+          {recordingStatus === "recording" && (
+            <div className="flex justify-center mt-3">
+              <Button variant="ghost" size="sm" onClick={cancelRecording} className="text-gray-600">
+                <X className="w-4 h-4 mr-1" />
+                Cancel without sending
+              </Button>
+            </div>
+          )}
+
           <div className="text-center mt-4">
             <p className="text-sm text-gray-600">
               {recordingStatus === "idle"
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { credentialStore, type CredentialState } from "@/lib/credentialStore";
+
+// Re-renders whenever stored platform credentials change, including from other tabs
+export function useCredentials(): CredentialState {
+  return useSyncExternalStore(credentialStore.subscribe, credentialStore.getState);
+}
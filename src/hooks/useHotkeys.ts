@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  bindingCode,
+  bindingFromEvent,
+  DEFAULT_HOTKEYS,
+  HOTKEY_ACTIONS,
+  shouldIgnoreShortcuts,
+  type HotkeyAction,
+  type HotkeyBindings,
+} from "@/lib/hotkeys";
+
+const STORAGE_KEY = "agilow_hotkeys";
+
+const readBindings = (): HotkeyBindings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    const bindings = { ...DEFAULT_HOTKEYS };
+    HOTKEY_ACTIONS.forEach(({ action }) => {
+      if (typeof stored?.[action] === "string") {
+        bindings[action] = stored[action];
+      }
+    });
+    return bindings;
+  } catch (e) {
+    console.error("Error reading hotkey settings:", e);
+    return { ...DEFAULT_HOTKEYS };
+  }
+};
+
+// User's shortcut bindings, kept in localStorage like the other per-browser preferences
+export function useHotkeyBindings() {
+  const [bindings, setBindings] = useState<HotkeyBindings>(readBindings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  }, [bindings]);
+
+  const rebind = useCallback((action: HotkeyAction, binding: string) => {
+    setBindings((prev) => ({ ...prev, [action]: binding }));
+  }, []);
+
+  const resetBindings = useCallback(() => setBindings({ ...DEFAULT_HOTKEYS }), []);
+
+  return { bindings, rebind, resetBindings };
+}
+
+export interface HotkeyHandlers {
+  onPushToTalkStart: () => void;
+  onPushToTalkEnd: () => void;
+  onToggleRecording: () => void;
+  // Return false when there was nothing to cancel, so Esc keeps its usual meaning
+  onCancelRecording: () => boolean;
+  onFlushSegment: () => void;
+}
+
+// Global recording shortcuts; ignored while typing, on focused controls, in dialogs or when disabled (e.g. while rebinding)
+export function useHotkeys(bindings: HotkeyBindings, handlers: HotkeyHandlers, enabled = true) {
+  // Handlers change every render; reading them through a ref avoids re-subscribing each time
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let isPushToTalkHeld = false;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (shouldIgnoreShortcuts(event.target)) {
+        return;
+      }
+      const binding = bindingFromEvent(event);
+      const current = handlersRef.current;
+
+      if (binding === bindings.pushToTalk) {
+        // Also stops Space from scrolling the page
+        event.preventDefault();
+        if (!event.repeat && !isPushToTalkHeld) {
+          isPushToTalkHeld = true;
+          current.onPushToTalkStart();
+        }
+        return;
+      }
+      if (event.repeat) {
+        return;
+      }
+      if (binding === bindings.toggleRecording) {
+        event.preventDefault();
+        current.onToggleRecording();
+      } else if (binding === bindings.cancelRecording) {
+        if (current.onCancelRecording()) {
+          event.preventDefault();
+        }
+      } else if (binding === bindings.flushSegment) {
+        event.preventDefault();
+        current.onFlushSegment();
+      }
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (isPushToTalkHeld && event.code === bindingCode(bindings.pushToTalk)) {
+        event.preventDefault();
+        isPushToTalkHeld = false;
+        handlersRef.current.onPushToTalkEnd();
+      }
+    };
+
+    // Letting go of the key in another window never fires keyup here
+    const handleBlur = () => {
+      if (isPushToTalkHeld) {
+        isPushToTalkHeld = false;
+        handlersRef.current.onPushToTalkEnd();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+      handleBlur();
+    };
+  }, [bindings, enabled]);
+}
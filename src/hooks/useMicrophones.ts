@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from "react";
+
+const STORAGE_KEY = "agilow_microphone";
+
+export interface Microphone {
+  deviceId: string;
+  label: string;
+}
+
+const readSelectedMicrophone = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch (e) {
+    console.error("Error reading microphone setting:", e);
+    return null;
+  }
+};
+
+// Audio inputs from enumerateDevices, plus the one picked in this browser.
+// Labels stay empty until microphone permission is granted, so call refresh() after recording starts.
+export function useMicrophones() {
+  const [microphones, setMicrophones] = useState<Microphone[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(readSelectedMicrophone);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return;
+    }
+    try {
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      setMicrophones(
+        devices
+          .filter((device) => device.kind === "audioinput" && device.deviceId && device.deviceId !== "default")
+          .map((device, index) => ({ deviceId: device.deviceId, label: device.label || `Microphone ${index + 1}` }))
+      );
+    } catch (e) {
+      console.error("Error listing microphones:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener?.("devicechange", refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.("devicechange", refresh);
+  }, [refresh]);
+
+  useEffect(() => {
+    if (selectedId) {
+      localStorage.setItem(STORAGE_KEY, selectedId);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, [selectedId]);
+
+  // A remembered device that is no longer plugged in falls back to the browser default
+  const deviceId = microphones.some((microphone) => microphone.deviceId === selectedId) ? selectedId : undefined;
+
+  return { microphones, deviceId, selectMicrophone: setSelectedId, refresh };
+}
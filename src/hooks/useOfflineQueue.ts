@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  agilowApi,
+  AgilowNetworkError,
+  type PlatformConfig,
+  type ProjectTool,
+  type RecordingSession,
+  type VoiceCommandResponse,
+} from "@/lib/agilowApi";
+import { credentialStore, CredentialsLockedError } from "@/lib/credentialStore";
+import { sendVoiceCommand } from "@/lib/commandRouting";
+import {
+  enqueueVoiceCommand,
+  getRetryDelay,
+  isDue,
+  listQueuedVoiceCommands,
+  nextInLine,
+  removeQueuedVoiceCommand,
+  updateQueuedVoiceCommand,
+  type QueuedVoiceCommand,
+} from "@/lib/offlineQueue";
+
+interface OfflineQueueHandlers {
+  onDelivered: (data: VoiceCommandResponse, item: QueuedVoiceCommand) => void;
+  onFailed?: (error: Error, item: QueuedVoiceCommand) => void;
+  // Delivered commands for these platforms come back as proposals, as if sent live
+  reviewPlatforms?: ProjectTool[];
+}
+
+// Keeps failed voice uploads in IndexedDB and re-sends them once the browser is back online
+export function useOfflineQueue(handlers: OfflineQueueHandlers) {
+  const [queued, setQueued] = useState<QueuedVoiceCommand[]>([]);
+  const handlersRef = useRef(handlers);
+  const retryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isFlushing = useRef(false);
+  // Flushes and manual retries take turns, so no item is uploaded twice
+  const queueLock = useRef<Promise<unknown>>(Promise.resolve());
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  const refresh = useCallback(async () => {
+    const items = await listQueuedVoiceCommands();
+    setQueued(items);
+    return items;
+  }, []);
+
+  // Resolves whether the item was delivered
+  const attempt = useCallback(async (item: QueuedVoiceCommand): Promise<boolean> => {
+    try {
+      const reviewPlatforms = handlersRef.current.reviewPlatforms ?? [];
+      let platform = item.platform;
+      let data: VoiceCommandResponse;
+      if (platform) {
+        // Queued items carry no secrets, so merge the target back onto the stored credentials
+        const stored = credentialStore.getCredentials(platform);
+        const config = stored ? ({ ...stored, ...item.config } as PlatformConfig) : null;
+        data = await agilowApi.sendAudio(item.audio, platform, config, {
+          review: reviewPlatforms.includes(platform),
+          session: item.session,
+        });
+      } else {
+        // Recorded in auto mode: route it now that we can hear the prefix
+        ({ platform, data } = await sendVoiceCommand(
+          item.audio,
+          "auto",
+          credentialStore.getActivePlatform(),
+          reviewPlatforms,
+          item.session
+        ));
+      }
+      await removeQueuedVoiceCommand(item.id);
+      handlersRef.current.onDelivered(data, { ...item, platform });
+      return true;
+    } catch (error) {
+      const attempts = item.attempts + 1;
+      // Only connectivity problems and locked credentials are retried automatically;
+      // anything the backend rejected waits for a manual retry or discard
+      const nextAttemptAt = error instanceof AgilowNetworkError || error instanceof CredentialsLockedError
+        ? Date.now() + getRetryDelay(attempts)
+        : Number.POSITIVE_INFINITY;
+      const updated = { ...item, attempts, nextAttemptAt, lastError: (error as Error).message };
+      await updateQueuedVoiceCommand(updated);
+      handlersRef.current.onFailed?.(error as Error, updated);
+      return false;
+    }
+  }, []);
+
+  const exclusive = useCallback(<T>(task: () => Promise<T>): Promise<T> => {
+    const run = queueLock.current.then(task);
+    queueLock.current = run.catch(() => undefined);
+    return run;
+  }, []);
+
+  // Items go out in queue order; a part that isn't delivered holds back the rest of its recording
+  const sendInOrder = useCallback(async (items: QueuedVoiceCommand[], shouldSend: (item: QueuedVoiceCommand) => boolean) => {
+    const heldSessions = new Set<string>();
+    for (const item of items) {
+      if (item.session && heldSessions.has(item.session.id)) {
+        continue;
+      }
+      const delivered = shouldSend(item) && (await attempt(item));
+      if (!delivered && item.session) {
+        heldSessions.add(item.session.id);
+      }
+    }
+  }, [attempt]);
+
+  const scheduleNext = useCallback((items: QueuedVoiceCommand[], flush: () => void) => {
+    if (retryTimer.current) {
+      clearTimeout(retryTimer.current);
+      retryTimer.current = null;
+    }
+    const nextAttemptAt = Math.min(...nextInLine(items).map((item) => item.nextAttemptAt));
+    if (!Number.isFinite(nextAttemptAt)) {
+      return;
+    }
+    retryTimer.current = setTimeout(flush, Math.max(0, nextAttemptAt - Date.now()));
+  }, []);
+
+  const flush = useCallback(async (force = false) => {
+    if (isFlushing.current || !navigator.onLine || credentialStore.isLocked()) {
+      return;
+    }
+    isFlushing.current = true;
+    try {
+      await exclusive(async () => {
+        const items = await listQueuedVoiceCommands();
+        await sendInOrder(items, (item) => isDue(item, Date.now(), force));
+      });
+    } finally {
+      isFlushing.current = false;
+    }
+    const remaining = await refresh();
+    scheduleNext(remaining, () => flush());
+  }, [exclusive, sendInOrder, refresh, scheduleNext]);
+
+  useEffect(() => {
+    refresh()
+      .then(() => flush())
+      .catch((error) => console.error("Error loading offline queue:", error));
+
+    const handleOnline = () => {
+      flush(true);
+    };
+    window.addEventListener("online", handleOnline);
+
+    // Anything held back while credentials were locked goes out on unlock
+    let wasLocked = credentialStore.isLocked();
+    const unsubscribe = credentialStore.subscribe(() => {
+      const isLocked = credentialStore.isLocked();
+      if (wasLocked && !isLocked) {
+        flush(true);
+      }
+      wasLocked = isLocked;
+    });
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      unsubscribe();
+      if (retryTimer.current) {
+        clearTimeout(retryTimer.current);
+      }
+    };
+  }, [refresh, flush]);
+
+  const enqueue = useCallback(async (
+    audio: Blob,
+    platform: ProjectTool | null,
+    config: PlatformConfig | null,
+    lastError?: string,
+    session?: RecordingSession
+  ) => {
+    const item = await enqueueVoiceCommand(audio, platform, config, lastError, session);
+    const items = await refresh();
+    scheduleNext(items, () => flush());
+    return item;
+  }, [refresh, scheduleNext, flush]);
+
+  // Retrying one part of a recording sends its earlier queued parts first
+  const retry = useCallback(async (id: string) => {
+    await exclusive(async () => {
+      // Read again under the lock, since a flush may have delivered it meanwhile
+      const items = await listQueuedVoiceCommands();
+      const item = items.find((entry) => entry.id === id);
+      if (!item) {
+        return;
+      }
+      const session = item.session;
+      const batch = session ? items.filter((entry) => entry.session?.id === session.id && entry.session.part <= session.part) : [item];
+      await sendInOrder(batch, () => true);
+    });
+    const items = await refresh();
+    scheduleNext(items, () => flush());
+  }, [exclusive, sendInOrder, refresh, scheduleNext, flush]);
+
+  const discard = useCallback(async (id: string) => {
+    await removeQueuedVoiceCommand(id);
+    await refresh();
+  }, [refresh]);
+
+  // Drops every queued part of a cancelled recording
+  const discardSession = useCallback(async (sessionId: string) => {
+    await exclusive(async () => {
+      const items = await listQueuedVoiceCommands();
+      for (const item of items.filter((entry) => entry.session?.id === sessionId)) {
+        await removeQueuedVoiceCommand(item.id);
+      }
+    });
+    await refresh();
+  }, [exclusive, refresh]);
+
+  return { queued, enqueue, retry, discard, discardSession };
+}
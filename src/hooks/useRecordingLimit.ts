@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+
+const STORAGE_KEY = "agilow_max_recording_seconds";
+
+export const RECORDING_LIMIT_OPTIONS = [60, 120, 300, 600];
+export const DEFAULT_RECORDING_LIMIT = 120;
+
+const readRecordingLimit = (): number => {
+  const stored = Number(localStorage.getItem(STORAGE_KEY));
+  return RECORDING_LIMIT_OPTIONS.includes(stored) ? stored : DEFAULT_RECORDING_LIMIT;
+};
+
+// Longest stretch of batch audio sent in one upload; longer recordings go up in parts
+export function useRecordingLimit() {
+  const [maxRecordingSeconds, setMaxRecordingSeconds] = useState<number>(readRecordingLimit);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, String(maxRecordingSeconds));
+  }, [maxRecordingSeconds]);
+
+  return { maxRecordingSeconds, setMaxRecordingSeconds };
+}
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ProjectTool } from "@/lib/agilowApi";
+import { isCredentialPlatform } from "@/lib/credentialStore";
+
+const STORAGE_KEY = "agilow_review_platforms";
+
+const readReviewPlatforms = (): ProjectTool[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isCredentialPlatform) : [];
+  } catch (e) {
+    console.error("Error reading review mode settings:", e);
+    return [];
+  }
+};
+
+// Platforms whose voice commands are proposed for approval instead of applied right away.
+// Not a secret, so it lives in plain localStorage rather than the credential store.
+export function useReviewMode() {
+  const [reviewPlatforms, setReviewPlatforms] = useState<ProjectTool[]>(readReviewPlatforms);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(reviewPlatforms));
+  }, [reviewPlatforms]);
+
+  const toggleReview = useCallback((platform: ProjectTool) => {
+    setReviewPlatforms((prev) =>
+      prev.includes(platform) ? prev.filter((value) => value !== platform) : [...prev, platform]
+    );
+  }, []);
+
+  return { reviewPlatforms, toggleReview };
+}
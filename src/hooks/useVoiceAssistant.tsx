@@ -1,6 +1,8 @@
 import React, { useRef, useState, useEffect, useContext, createContext } from 'react';
-import { AudioRecorder, sendAudioToBackend } from '@/utils/audioRecorder';
-import Cookies from 'js-cookie';
+import { AudioRecorder } from '@/utils/audioRecorder';
+import { agilowApi } from '@/lib/agilowApi';
+import { credentialStore } from '@/lib/credentialStore';
+import { findPlatformAdapter, validatePlatformConfig } from '@/lib/platforms';
 
 const VoiceAssistantContext = createContext(null);
 
@@ -19,8 +21,6 @@ export function VoiceAssistantProvider({ children }) {
   const recordingInterval = useRef(null);
   const audioRecorder = useRef(new AudioRecorder());
 
-  const BASE_URL = "https://agilow-backend-ur0h.onrender.com";
-
   // Add a log entry
   const addLog = (type, message, options) => {
     let fullMessage = message;
@@ -53,7 +53,10 @@ export function VoiceAssistantProvider({ children }) {
   // Start recording
   const startRecording = async () => {
     try {
-      await audioRecorder.current.startRecording();
+      // Continuous mode cuts a segment on every pause and sends it straight away
+      await audioRecorder.current.startRecording(
+        recordingMode === 'continuous' ? { voiceActivity: { onSegment: sendSegment } } : undefined
+      );
       setRecordingStatus('recording');
       setRecordingTime(0);
       addLog('info', 'Listening...', {});
@@ -65,6 +68,18 @@ export function VoiceAssistantProvider({ children }) {
     }
   };
 
+  // Stop recording and throw the audio away
+  const cancelRecording = () => {
+    audioRecorder.current.abort();
+    if (recordingInterval.current) {
+      clearInterval(recordingInterval.current);
+      recordingInterval.current = null;
+    }
+    setRecordingStatus('idle');
+    setRecordingTime(0);
+    addLog('cancelled', 'Recording cancelled, nothing was sent', {});
+  };
+
   // Stop recording and process
   const stopRecording = async () => {
     try {
@@ -84,29 +99,11 @@ export function VoiceAssistantProvider({ children }) {
       }
       
       // Validate platform-specific credentials
-      const platform = platformConfig?.platform || selectedTool;
-      if (platform === 'trello') {
-        if (!platformConfig.apiKey || platformConfig.apiKey === 'undefined') {
-          addLog('error', 'Trello API key is missing. Please configure your Trello credentials.', {});
-          return;
-        }
-        if (!platformConfig.boardId || platformConfig.boardId === 'undefined') {
-          addLog('error', 'Trello board ID is missing. Please configure your Trello board ID.', {});
-          return;
-        }
-        if (!platformConfig.token || platformConfig.token === 'undefined') {
-          addLog('error', 'Trello token is missing. Please configure your Trello token.', {});
-          return;
-        }
-      } else if (platform === 'linear') {
-        if (!platformConfig.apiKey || platformConfig.apiKey === 'undefined') {
-          addLog('error', 'Linear API key is missing. Please configure your Linear credentials.', {});
-          return;
-        }
-        if (!platformConfig.workspaceId || platformConfig.workspaceId === 'undefined') {
-          addLog('error', 'Linear workspace ID is missing. Please configure your Linear workspace ID.', {});
-          return;
-        }
+      const adapter = findPlatformAdapter(platformConfig?.platform || selectedTool);
+      const configError = adapter && validatePlatformConfig(adapter, platformConfig);
+      if (configError) {
+        addLog('error', configError, {});
+        return;
       }
       
       // Send audio to backend
@@ -119,14 +116,7 @@ export function VoiceAssistantProvider({ children }) {
           configKeys: platformConfig ? Object.keys(platformConfig) : [],
           configValues: platformConfig ? Object.values(platformConfig) : []
         });
-        const res = await sendAudioToBackend(audioBlob, platform, platformConfig);
-        let data;
-        try {
-          data = await res.json();
-        } catch (e) {
-          addLog('error', 'Failed to parse backend response as JSON', { errorDetails: e.message });
-          return;
-        }
+        const data = await agilowApi.sendAudio(audioBlob, platform, platformConfig);
         
         // Check if the response indicates an error
         if (data.success === false) {
@@ -155,84 +145,64 @@ export function VoiceAssistantProvider({ children }) {
     }
   };
 
-  // Process segment (for continuous mode)
-  const processSegment = async () => {
+  // Send a continuous-mode segment, whether cut by hand or on a detected pause
+  const sendSegment = async (segmentBlob) => {
+    // Validate configuration before sending
+    if (!platformConfig) {
+      addLog('error', 'No platform configuration found. Please configure your credentials first.', {});
+      return;
+    }
+    
+    // Validate platform-specific credentials
+    const platform = platformConfig?.platform || selectedTool;
+    const adapter = findPlatformAdapter(platform);
+    const configError = adapter && validatePlatformConfig(adapter, platformConfig);
+    if (configError) {
+      addLog('error', configError, {});
+      return;
+    }
+    
+    // Send segment to backend
     try {
-      setRecordingStatus('processing');
-      addLog('info', 'Processing audio segment...', {});
-      const segmentBlob = await audioRecorder.current.processSegment();
+      console.log("🎯 Sending segment with config:", {
+        platform,
+        platformConfig,
+        selectedTool,
+        configKeys: platformConfig ? Object.keys(platformConfig) : [],
+        configValues: platformConfig ? Object.values(platformConfig) : []
+      });
+      const data = await agilowApi.sendAudio(segmentBlob, platform, platformConfig);
       
-      // Validate configuration before sending
-      if (!platformConfig) {
-        addLog('error', 'No platform configuration found. Please configure your credentials first.', {});
+      // Check if the response indicates an error
+      if (data.success === false) {
+        addLog('error', data.error || 'Backend returned an error', {});
         return;
       }
       
-      // Validate platform-specific credentials
-      const platform = platformConfig?.platform || selectedTool;
-      if (platform === 'trello') {
-        if (!platformConfig.apiKey || platformConfig.apiKey === 'undefined') {
-          addLog('error', 'Trello API key is missing. Please configure your Trello credentials.', {});
-          return;
-        }
-        if (!platformConfig.boardId || platformConfig.boardId === 'undefined') {
-          addLog('error', 'Trello board ID is missing. Please configure your Trello board ID.', {});
-          return;
-        }
-        if (!platformConfig.token || platformConfig.token === 'undefined') {
-          addLog('error', 'Trello token is missing. Please configure your Trello token.', {});
-          return;
-        }
-      } else if (platform === 'linear') {
-        if (!platformConfig.apiKey || platformConfig.apiKey === 'undefined') {
-          addLog('error', 'Linear API key is missing. Please configure your Linear credentials.', {});
-          return;
-        }
-        if (!platformConfig.workspaceId || platformConfig.workspaceId === 'undefined') {
-          addLog('error', 'Linear workspace ID is missing. Please configure your Linear workspace ID.', {});
-          return;
-        }
+      if (data.transcript) {
+        addLog('transcribed', data.transcript, {});
       }
-      
-      // Send segment to backend
-      try {
-        console.log("🎯 Sending segment with config:", {
-          platform,
-          platformConfig,
-          selectedTool,
-          configKeys: platformConfig ? Object.keys(platformConfig) : [],
-          configValues: platformConfig ? Object.values(platformConfig) : []
+      if (Array.isArray(data.results)) {
+        data.results.forEach((result) => {
+          if (result.success) {
+            addLog('task', `${result.operation === 'create' ? 'created' : result.operation}` + (result.task ? `: ${result.task}` : ''), { details: { taskName: result.task, taskStatus: result.operation } });
+          } else {
+            addLog('error', `Task operation failed${result.task ? ` for: ${result.task}` : ''}`, { errorDetails: result.error });
+          }
         });
-        const res = await sendAudioToBackend(segmentBlob, platform, platformConfig, BASE_URL);
-        let data;
-        try {
-          data = await res.json();
-        } catch (e) {
-          addLog('error', 'Failed to parse', { errorDetails: e.message });
-          return;
-        }
-        
-        // Check if the response indicates an error
-        if (data.success === false) {
-          addLog('error', data.error || 'Backend returned an error', {});
-          return;
-        }
-        
-        if (data.transcript) {
-          addLog('transcribed', data.transcript, {});
-        }
-        if (Array.isArray(data.results)) {
-          data.results.forEach((result) => {
-            if (result.success) {
-              addLog('task', `${result.operation === 'create' ? 'created' : result.operation}` + (result.task ? `: ${result.task}` : ''), { details: { taskName: result.task, taskStatus: result.operation } });
-            } else {
-              addLog('error', `Task operation failed${result.task ? ` for: ${result.task}` : ''}`, { errorDetails: result.error });
-            }
-          });
-        }
-      } catch (error) {
-        addLog('error', 'Failed to send segment', { errorDetails: error.message });
       }
+    } catch (error) {
+      addLog('error', 'Failed to send segment', { errorDetails: error.message });
+    }
+  };
+
+  // Process segment (for continuous mode)
+  const processSegment = async () => {
+    try {
+      setRecordingStatus('processing');
+      addLog('info', 'Processing audio segment...', {});
+      const segmentBlob = await audioRecorder.current.processSegment();
+      await sendSegment(segmentBlob);
       setRecordingStatus('recording');
     } catch (error) {
       addLog('error', 'Failed to process segment', { errorDetails: error.message });
@@ -260,64 +230,13 @@ export function VoiceAssistantProvider({ children }) {
 
   // On mount, check for saved credentials
   useEffect(() => {
-    const apiKey = Cookies.get('apiKey');
-    const platform = Cookies.get('platform');
-    
-    // Clear invalid cookies
-    if (apiKey === "undefined" || apiKey === "") {
-      Cookies.remove('apiKey');
-    }
-    if (platform === "undefined" || platform === "") {
-      Cookies.remove('platform');
-    }
-    
-    if (apiKey && platform && apiKey !== "undefined") {
-      if (platform === 'trello') {
-        const token = Cookies.get('token');
-        const boardId = Cookies.get('boardId');
-        
-        // Clear invalid Trello cookies
-        if (token === "undefined" || token === "") {
-          Cookies.remove('token');
-        }
-        if (boardId === "undefined" || boardId === "") {
-          Cookies.remove('boardId');
-        }
-        
-        if (token && boardId && token !== "undefined" && boardId !== "undefined") {
-          setSelectedTool('trello');
-          setIsConfigured(true);
-          setPlatformConfig({ apiKey, token, boardId, platform: 'trello' });
-          setShowConfigForm(false);
-        } else {
-          // Invalid Trello credentials, clear all Trello cookies
-          Cookies.remove('apiKey');
-          Cookies.remove('token');
-          Cookies.remove('boardId');
-          Cookies.remove('platform');
-          setShowConfigForm(true);
-        }
-      } else if (platform === 'linear') {
-        const workspaceId = Cookies.get('workspaceId');
-        
-        // Clear invalid Linear cookies
-        if (workspaceId === "undefined" || workspaceId === "") {
-          Cookies.remove('workspaceId');
-        }
-        
-        if (workspaceId && workspaceId !== "undefined") {
-          setSelectedTool('linear');
-          setIsConfigured(true);
-          setPlatformConfig({ apiKey, workspaceId, platform: 'linear' });
-          setShowConfigForm(false);
-        } else {
-          // Invalid Linear credentials, clear all Linear cookies
-          Cookies.remove('apiKey');
-          Cookies.remove('workspaceId');
-          Cookies.remove('platform');
-          setShowConfigForm(true);
-        }
-      }
+    const platform = credentialStore.getActivePlatform();
+    const config = credentialStore.getCredentials(platform);
+    if (config) {
+      setSelectedTool(platform);
+      setIsConfigured(true);
+      setPlatformConfig({ ...config, platform });
+      setShowConfigForm(false);
     } else {
       setShowConfigForm(true);
     }
@@ -326,6 +245,16 @@ export function VoiceAssistantProvider({ children }) {
     };
   }, []);
 
+  // Follow credential changes made elsewhere (another dashboard, another tab)
+  useEffect(() => {
+    return credentialStore.subscribe(() => {
+      if (!selectedTool) return;
+      const config = credentialStore.getCredentials(selectedTool);
+      setPlatformConfig(config ? { ...config, platform: selectedTool } : null);
+      setIsConfigured(!!config);
+    });
+  }, [selectedTool]);
+
   return (
     <VoiceAssistantContext.Provider value={{
       selectedTool,
@@ -345,6 +274,7 @@ export function VoiceAssistantProvider({ children }) {
       setRecordingMode,
       startRecording,
       stopRecording,
+      cancelRecording,
       processSegment,
       handleConfigSave,
       handleConfigCancel,
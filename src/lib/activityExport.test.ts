@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { serializeActivity } from "@/lib/activityExport";
+import type { ActivityEntry } from "@/lib/activityLog";
+
+const entry = (id: string, timestamp: string, type: ActivityEntry["type"], message: string, details?: ActivityEntry["details"]): ActivityEntry => ({
+  id,
+  timestamp,
+  type,
+  message,
+  details,
+});
+
+// Newest first, as the activity log returns them
+const ENTRIES: ActivityEntry[] = [
+  entry("3", "2024-05-02T09:30:00.000Z", "error", "Upload failed"),
+  entry("2", "2024-05-01T10:05:00.000Z", "task", "Task created", { platform: "linear", taskName: "Fix login", taskStatus: "Created" }),
+  entry("1", "2024-05-01T10:00:00.000Z", "transcribed", "Transcribed", { platform: "linear", transcription: "Fix login, then deploy" }),
+];
+
+describe("serializeActivity", () => {
+  describe("csv", () => {
+    it("writes a header and one row per entry, oldest first", () => {
+      const [header, ...rows] = serializeActivity(ENTRIES, "csv", "Activity").split("\n");
+      expect(header).toBe("timestamp,type,platform,message,taskName,taskStatus,transcription");
+      expect(rows).toEqual([
+        '2024-05-01T10:00:00.000Z,transcribed,Linear,Transcribed,,,"Fix login, then deploy"',
+        "2024-05-01T10:05:00.000Z,task,Linear,Task created,Fix login,Created,",
+        "2024-05-02T09:30:00.000Z,error,,Upload failed,,,",
+      ]);
+    });
+
+    it("quotes cells with quotes or line breaks", () => {
+      const csv = serializeActivity([entry("1", "2024-05-01T10:00:00.000Z", "info", 'Said "hi"\nthen left')], "csv", "Activity");
+      expect(csv.split("\n").slice(1).join("\n")).toBe('2024-05-01T10:00:00.000Z,info,,"Said ""hi""\nthen left",,,');
+    });
+
+    it.each(["=HYPERLINK(\"x\")", "+1", "-1", "@SUM(A1)"])("keeps %s from running as a formula", (transcription) => {
+      const csv = serializeActivity([entry("1", "2024-05-01T10:00:00.000Z", "transcribed", "Transcribed", { transcription })], "csv", "Activity");
+      const cell = csv.split("\n")[1].split(",").slice(6).join(",");
+      expect(cell.replace(/^"|"$/g, "").replace(/""/g, '"')).toBe(`'${transcription}`);
+    });
+  });
+
+  it("exports json oldest first with missing details as null", () => {
+    expect(JSON.parse(serializeActivity(ENTRIES, "json", "Activity"))).toEqual([
+      {
+        id: "1",
+        timestamp: "2024-05-01T10:00:00.000Z",
+        type: "transcribed",
+        platform: "linear",
+        message: "Transcribed",
+        taskName: null,
+        taskStatus: null,
+        transcription: "Fix login, then deploy",
+      },
+      {
+        id: "2",
+        timestamp: "2024-05-01T10:05:00.000Z",
+        type: "task",
+        platform: "linear",
+        message: "Task created",
+        taskName: "Fix login",
+        taskStatus: "Created",
+        transcription: null,
+      },
+      {
+        id: "3",
+        timestamp: "2024-05-02T09:30:00.000Z",
+        type: "error",
+        platform: null,
+        message: "Upload failed",
+        taskName: null,
+        taskStatus: null,
+        transcription: null,
+      },
+    ]);
+  });
+
+  describe("markdown", () => {
+    it("groups entries by day into dictation, tasks and problems", () => {
+      const markdown = serializeActivity(ENTRIES, "markdown", "Standup notes");
+      const headings = markdown.split("\n").filter((line) => line.startsWith("#"));
+      expect(headings[0]).toBe("# Standup notes");
+      expect(headings.filter((line) => line.startsWith("## "))).toHaveLength(2);
+      expect(headings.filter((line) => line.startsWith("### "))).toEqual(["### Dictated", "### Tasks", "### Problems"]);
+      expect(markdown).toContain('· Linear — "Fix login, then deploy"');
+      expect(markdown).toContain("· Linear — Created: **Fix login**");
+      expect(markdown).toContain("— Upload failed");
+    });
+
+    it("marks undone tasks", () => {
+      const markdown = serializeActivity(
+        [entry("1", "2024-05-01T10:00:00.000Z", "task", "Task created", { taskName: "Fix login", undone: true })],
+        "markdown",
+        "Activity"
+      );
+      expect(markdown).toContain("**Fix login** _(undone)_");
+    });
+
+    it("says so when there is nothing to export", () => {
+      expect(serializeActivity([], "markdown", "Activity")).toBe("# Activity\n\n_No activity in this period._\n");
+    });
+  });
+});
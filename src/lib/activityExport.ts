@@ -0,0 +1,124 @@
+import { format } from "date-fns";
+import type { ActivityEntry } from "@/lib/activityLog";
+import { PLATFORM_NAMES } from "@/lib/commandRouting";
+
+export type ExportFormat = "csv" | "json" | "markdown";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+  { value: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+  { value: "markdown", label: "Markdown meeting notes", extension: "md", mimeType: "text/markdown" },
+];
+
+const detail = (entry: ActivityEntry, name: string): string => {
+  const value = entry.details?.[name];
+  return value === undefined || value === null ? "" : String(value);
+};
+
+const platformName = (entry: ActivityEntry): string =>
+  entry.details?.platform ? PLATFORM_NAMES[entry.details.platform] : "";
+
+const CSV_COLUMNS = ["timestamp", "type", "platform", "message", "taskName", "taskStatus", "transcription"];
+
+// Spreadsheets run cells starting with these as formulas, so a transcript like "=HYPERLINK(...)" is kept as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (raw: string): string => {
+  const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const toCsv = (entries: ActivityEntry[]): string =>
+  [
+    CSV_COLUMNS.join(","),
+    ...entries.map((entry) =>
+      [
+        entry.timestamp,
+        entry.type,
+        platformName(entry),
+        entry.message,
+        detail(entry, "taskName"),
+        detail(entry, "taskStatus"),
+        detail(entry, "transcription"),
+      ]
+        .map(csvCell)
+        .join(",")
+    ),
+  ].join("\n");
+
+const toJson = (entries: ActivityEntry[]): string =>
+  JSON.stringify(
+    entries.map(({ id, timestamp, type, message, details }) => ({
+      id,
+      timestamp,
+      type,
+      platform: details?.platform ?? null,
+      message,
+      taskName: details?.taskName ?? null,
+      taskStatus: details?.taskStatus ?? null,
+      transcription: details?.transcription ?? null,
+    })),
+    null,
+    2
+  );
+
+// One section per day: what was said, what changed, and what went wrong
+const toMarkdown = (entries: ActivityEntry[], title: string): string => {
+  const days = new Map<string, ActivityEntry[]>();
+  entries.forEach((entry) => {
+    const day = format(new Date(entry.timestamp), "EEEE, MMMM d, yyyy");
+    days.set(day, [...(days.get(day) ?? []), entry]);
+  });
+
+  const line = (entry: ActivityEntry, text: string) => {
+    const platform = platformName(entry);
+    return `- ${format(new Date(entry.timestamp), "HH:mm")}${platform ? ` · ${platform}` : ""} — ${text}`;
+  };
+
+  const sections = [...days].map(([day, dayEntries]) => {
+    const dictated = dayEntries
+      .filter((entry) => entry.type === "transcribed")
+      .map((entry) => line(entry, `"${detail(entry, "transcription") || entry.message}"`));
+    const tasks = dayEntries
+      .filter((entry) => entry.type === "task")
+      .map((entry) => {
+        const task = detail(entry, "taskName") || entry.message;
+        const status = detail(entry, "taskStatus");
+        return line(entry, `${status ? `${status}: ` : ""}**${task}**${entry.details?.undone ? " _(undone)_" : ""}`);
+      });
+    const problems = dayEntries.filter((entry) => entry.type === "error").map((entry) => line(entry, entry.message));
+
+    return [
+      `## ${day}`,
+      ...(dictated.length ? ["", "### Dictated", ...dictated] : []),
+      ...(tasks.length ? ["", "### Tasks", ...tasks] : []),
+      ...(problems.length ? ["", "### Problems", ...problems] : []),
+    ].join("\n");
+  });
+
+  return [`# ${title}`, "", sections.length ? sections.join("\n\n") : "_No activity in this period._", ""].join("\n");
+};
+
+// Entries are expected newest first, as the log stores them; exports read oldest first
+export const serializeActivity = (entries: ActivityEntry[], exportFormat: ExportFormat, title: string): string => {
+  const chronological = [...entries].reverse();
+  switch (exportFormat) {
+    case "csv":
+      return toCsv(chronological);
+    case "json":
+      return toJson(chronological);
+    case "markdown":
+      return toMarkdown(chronological, title);
+  }
+};
+
+export const downloadActivityExport = (content: string, exportFormat: ExportFormat, fileName: string) => {
+  const { extension, mimeType } = EXPORT_FORMATS.find((option) => option.value === exportFormat);
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName}.${extension}`;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,96 @@
+import { endOfDay, format, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { STORES, withStore } from "@/lib/indexedDb";
+import type { ProjectTool } from "@/lib/agilowApi";
+
+// Everything shown in Recent Actions, kept across reloads so it can be searched later
+
+export const ACTIVITY_TYPES = [
+  "info",
+  "success",
+  "warning",
+  "error",
+  "voice",
+  "transcribed",
+  "task",
+  "due-date",
+  "queued",
+  "cancelled",
+] as const;
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[number];
+
+export interface ActivityEntry {
+  id: string;
+  // ISO 8601, so entries sort and range-query as plain strings
+  timestamp: string;
+  type: ActivityType;
+  message: string;
+  details?: { platform?: ProjectTool; [key: string]: unknown };
+}
+
+export interface ActivityQuery {
+  search?: string;
+  type?: ActivityType;
+  platform?: ProjectTool;
+  from?: Date;
+  to?: Date;
+  offset: number;
+  limit: number;
+}
+
+// Oldest entries beyond this are dropped by pruneActivityLog
+export const MAX_ACTIVITY_ENTRIES = 5000;
+
+// Whole days, so a single picked day covers midnight to midnight
+export const getRangeBounds = (range: DateRange | undefined): Pick<ActivityQuery, "from" | "to"> =>
+  range?.from ? { from: startOfDay(range.from), to: endOfDay(range.to ?? range.from) } : {};
+
+export const formatDateRange = (range: DateRange | undefined): string =>
+  range?.from
+    ? `${format(range.from, "MMM d, yyyy")}${range.to ? ` – ${format(range.to, "MMM d, yyyy")}` : ""}`
+    : "Any date";
+
+export const saveActivityEntry = (entry: ActivityEntry): Promise<IDBValidKey> =>
+  withStore(STORES.activityLog, "readwrite", (store) => store.put(entry));
+
+const getEntriesInRange = (from?: Date, to?: Date): Promise<ActivityEntry[]> => {
+  const lower = from?.toISOString();
+  const upper = to?.toISOString();
+  const range = lower && upper
+    ? IDBKeyRange.bound(lower, upper)
+    : lower
+      ? IDBKeyRange.lowerBound(lower)
+      : upper
+        ? IDBKeyRange.upperBound(upper)
+        : undefined;
+  return withStore<ActivityEntry[]>(STORES.activityLog, "readonly", (store) => store.index("timestamp").getAll(range));
+};
+
+// Newest first
+export const listRecentActivity = async (limit: number): Promise<ActivityEntry[]> =>
+  (await getEntriesInRange()).reverse().slice(0, limit);
+
+export const queryActivity = async (query: ActivityQuery): Promise<{ entries: ActivityEntry[]; total: number }> => {
+  const search = query.search?.trim().toLowerCase();
+  const matches = (await getEntriesInRange(query.from, query.to))
+    .reverse()
+    .filter((entry) =>
+      (!query.type || entry.type === query.type) &&
+      (!query.platform || entry.details?.platform === query.platform) &&
+      (!search || entry.message.toLowerCase().includes(search))
+    );
+  return { entries: matches.slice(query.offset, query.offset + query.limit), total: matches.length };
+};
+
+export const pruneActivityLog = async (maxEntries = MAX_ACTIVITY_ENTRIES): Promise<void> => {
+  const keys = await withStore<IDBValidKey[]>(STORES.activityLog, "readonly", (store) => store.index("timestamp").getAllKeys());
+  const stale = keys.slice(0, Math.max(0, keys.length - maxEntries));
+  if (stale.length === 0) {
+    return;
+  }
+  await withStore(STORES.activityLog, "readwrite", (store) => {
+    stale.forEach((key) => store.delete(key));
+    return store.count();
+  });
+};
@@ -0,0 +1,458 @@
+import { z } from "zod";
+import { credentialStore, CredentialsLockedError } from "@/lib/credentialStore";
+import { getPlatformAdapter } from "@/lib/platforms";
+import { isAudioFormat, type AudioFormat } from "@/utils/audioFormats";
+import { canTranscode, transcodeAudio } from "@/utils/audioTranscoder";
+
+export type ProjectTool = "trello" | "linear" | "asana" | "notion" | "jira";
+
+// Where voice-created cards land on a board unless the command names a list itself
+export interface TrelloBoardDefaults {
+  listId?: string;
+  labelIds?: string[];
+  memberIds?: string[];
+}
+
+export interface TrelloConfig {
+  apiKey: string;
+  token: string;
+  boardId: string;
+  // Keyed by board id so switching boards keeps each board's defaults
+  boardDefaults?: Record<string, TrelloBoardDefaults>;
+}
+
+export interface LinearConfig {
+  apiKey: string;
+  workspaceId: string;
+  // Missing from configs saved before team discovery; the backend then picks one
+  teamId?: string;
+  projectId?: string;
+  cycleId?: string;
+}
+
+export interface AsanaConfig {
+  personalAccessToken: string;
+  // Missing from configs saved before workspace discovery
+  workspaceId?: string;
+  projectId: string;
+  sectionId?: string;
+}
+
+export interface NotionConfig {
+  integrationToken: string;
+  databaseId: string;
+}
+
+export interface JiraConfig {
+  siteUrl: string;
+  email: string;
+  apiToken: string;
+  projectKey: string;
+  issueTypeId: string;
+}
+
+// What Jira discovery needs before a project has been picked
+export type JiraAuth = Pick<JiraConfig, "siteUrl" | "email" | "apiToken">;
+
+export type PlatformConfig = TrelloConfig | LinearConfig | AsanaConfig | NotionConfig | JiraConfig;
+
+// How to reverse a successful operation, e.g. delete a created card or
+// restore the status or due date an update replaced
+const inverseOperationSchema = z
+  .object({
+    operation: z.string(),
+    fields: z.record(z.unknown()).optional(),
+  })
+  .passthrough();
+
+// Response schema shared by /send-audio and /send-audio-linear
+const taskResultSchema = z
+  .object({
+    operation: z.string().nullish(),
+    task: z.string().nullish(),
+    success: z.boolean(),
+    error: z.string().nullish(),
+    // Id of the card/issue/task on the platform
+    entityId: z.string().nullish(),
+    inverse: inverseOperationSchema.nullish(),
+  })
+  .passthrough();
+
+// An operation parsed from a command in review mode, not yet applied
+const proposedOperationSchema = z
+  .object({
+    operation: z.string(),
+    task: z.string().nullish(),
+    entityId: z.string().nullish(),
+    fields: z.record(z.unknown()).optional(),
+  })
+  .passthrough();
+
+const voiceCommandResponseSchema = z
+  .object({
+    success: z.boolean().optional(),
+    error: z.string().nullish(),
+    transcript: z.string().nullish(),
+    results: z.array(taskResultSchema).optional(),
+    // Only returned when the command was sent for review
+    proposals: z.array(proposedOperationSchema).optional(),
+  })
+  .passthrough();
+
+const transcriptionResponseSchema = z.object({
+  transcript: z.string(),
+});
+
+const cancelSessionResponseSchema = z
+  .object({
+    success: z.boolean().optional(),
+  })
+  .passthrough();
+
+// Upload formats the backend accepts, most preferred first
+const audioFormatsResponseSchema = z.object({
+  formats: z.array(z.string()),
+});
+
+// Notion doesn't answer cross-origin requests, so its discovery calls go through the backend
+const notionDatabasesResponseSchema = z.object({
+  databases: z.array(z.object({ id: z.string(), name: z.string() })),
+});
+
+const notionAccountResponseSchema = z.object({
+  name: z.string().nullish(),
+  workspace: z.string().nullish(),
+});
+
+// Jira Cloud doesn't allow cross-origin calls either
+const jiraProjectsResponseSchema = z.object({
+  projects: z.array(
+    z.object({
+      key: z.string(),
+      name: z.string(),
+      issueTypes: z.array(z.object({ id: z.string(), name: z.string(), subtask: z.boolean().optional() })).default([]),
+    })
+  ),
+});
+
+const jiraAccountResponseSchema = z.object({
+  displayName: z.string(),
+});
+
+export type TaskResult = z.infer<typeof taskResultSchema>;
+export type InverseOperation = z.infer<typeof inverseOperationSchema>;
+export type ProposedOperation = z.infer<typeof proposedOperationSchema>;
+export type NotionDatabase = z.infer<typeof notionDatabasesResponseSchema>["databases"][number];
+export type NotionAccount = z.infer<typeof notionAccountResponseSchema>;
+export type JiraProject = z.infer<typeof jiraProjectsResponseSchema>["projects"][number];
+export type JiraAccount = z.infer<typeof jiraAccountResponseSchema>;
+
+// A long recording uploaded in parts; the backend stitches parts with the same id in order
+export interface RecordingSession {
+  id: string;
+  // 0-based position of this part in the session
+  part: number;
+  // Set on the last part, once the user has stopped recording
+  final: boolean;
+}
+
+export interface CommandOptions {
+  // Ask for proposed operations instead of applying them
+  review?: boolean;
+  session?: RecordingSession;
+}
+export type VoiceCommandResponse = z.infer<typeof voiceCommandResponseSchema>;
+
+// A created entity can always be undone by deleting it, even if the backend sent no inverse
+export const getInverseOperation = (result: TaskResult): InverseOperation | null => {
+  if (!result.success || !result.entityId) {
+    return null;
+  }
+  if (result.inverse) {
+    return result.inverse;
+  }
+  return result.operation === "create" ? { operation: "delete" } : null;
+};
+
+// Error hierarchy so callers can tell a dropped connection from a bad response
+export class AgilowApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AgilowApiError";
+  }
+}
+
+export class AgilowNetworkError extends AgilowApiError {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = "AgilowNetworkError";
+  }
+}
+
+export class AgilowHttpError extends AgilowApiError {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "AgilowHttpError";
+  }
+}
+
+export class AgilowSchemaError extends AgilowApiError {
+  constructor(message: string, readonly issues: z.ZodIssue[] = []) {
+    super(message);
+    this.name = "AgilowSchemaError";
+  }
+}
+
+const DEFAULT_API_URL = "http://127.0.0.1:8000";
+
+export const resolveApiBaseUrl = (): string => {
+  const configured = import.meta.env.VITE_API_URL as string | undefined;
+  return (configured || DEFAULT_API_URL).replace(/\/+$/, "");
+};
+
+const AUDIO_EXTENSIONS: [string, string][] = [
+  ["ogg", "ogg"],
+  ["webm", "webm"],
+  // Safari's MediaRecorder output
+  ["mp4", "mp4"],
+  ["wav", "wav"],
+];
+
+const appendAudio = (formData: FormData, audioBlob: Blob) => {
+  // Use proper filename extension based on blob type
+  const extension = AUDIO_EXTENSIONS.find(([type]) => audioBlob.type.includes(type))?.[1] ?? "wav";
+  formData.append("audio", audioBlob, `recording.${extension}`);
+};
+
+const appendPlatformFields = (
+  formData: FormData,
+  platform?: ProjectTool,
+  config?: PlatformConfig | null
+) => {
+  // Add platform parameter
+  if (platform) {
+    formData.append("platform", platform);
+  }
+
+  // Add platform-specific configuration
+  if (platform && config) {
+    getPlatformAdapter(platform).appendFormData(formData, config);
+  }
+};
+
+const appendCommandOptions = (formData: FormData, options: CommandOptions) => {
+  if (options.review) {
+    formData.append("review", "true");
+  }
+  if (options.session) {
+    formData.append("sessionId", options.session.id);
+    formData.append("sessionPart", String(options.session.part));
+    formData.append("sessionFinal", String(options.session.final));
+  }
+};
+
+// Same field names as the Jira adapter uses for voice commands
+const jiraAuthFormData = ({ siteUrl, email, apiToken }: JiraAuth): FormData => {
+  const formData = new FormData();
+  formData.append("jiraSiteUrl", siteUrl);
+  formData.append("jiraEmail", email);
+  formData.append("jiraApiToken", apiToken);
+  return formData;
+};
+
+export class AgilowApiClient {
+  private audioFormats: Promise<AudioFormat[]> | null = null;
+
+  constructor(private readonly baseUrl: string = resolveApiBaseUrl()) {}
+
+  // Asked once per client. An empty list means recordings go up as recorded,
+  // which is also what happens with a backend that predates /audio-formats.
+  private negotiateAudioFormats(): Promise<AudioFormat[]> {
+    if (!this.audioFormats) {
+      this.audioFormats = this.get("/audio-formats", audioFormatsResponseSchema)
+        .then(({ formats }) => formats.filter(isAudioFormat))
+        .catch((error) => {
+          // A dropped connection says nothing about the backend, so ask again next time
+          if (error instanceof AgilowNetworkError) {
+            this.audioFormats = null;
+          }
+          console.warn("Audio format negotiation failed, uploading recordings as recorded:", error);
+          return [];
+        });
+    }
+    return this.audioFormats;
+  }
+
+  // 16 kHz mono in a format the backend asked for, or the original recording if that isn't possible
+  private async prepareAudio(audioBlob: Blob): Promise<Blob> {
+    const formats = await this.negotiateAudioFormats();
+    if (formats.length === 0 || !canTranscode()) {
+      return audioBlob;
+    }
+    try {
+      return await transcodeAudio(audioBlob, formats);
+    } catch (error) {
+      console.warn("Transcoding failed, uploading the original recording:", error);
+      return audioBlob;
+    }
+  }
+
+  async sendAudio(
+    audioBlob: Blob,
+    platform?: ProjectTool,
+    config?: PlatformConfig | null,
+    options: CommandOptions = {}
+  ): Promise<VoiceCommandResponse> {
+    if (credentialStore.isLocked()) {
+      throw new CredentialsLockedError();
+    }
+
+    // Fall back to the stored credentials when the caller didn't pass any
+    const resolvedPlatform = platform ?? credentialStore.getActivePlatform() ?? undefined;
+    const resolvedConfig = config ?? credentialStore.getCredentials(resolvedPlatform);
+
+    const endpoint = (resolvedPlatform && getPlatformAdapter(resolvedPlatform).audioEndpoint) || "/send-audio";
+    const upload = await this.prepareAudio(audioBlob);
+    const formData = new FormData();
+    appendAudio(formData, upload);
+    appendPlatformFields(formData, resolvedPlatform, resolvedConfig);
+    appendCommandOptions(formData, options);
+
+    console.log("Sending audio to backend...", upload.size, "bytes", `Type: ${upload.type}`, `Platform: ${resolvedPlatform}`);
+    return this.post(endpoint, formData, voiceCommandResponseSchema);
+  }
+
+  // Speech-to-text only; nothing is created on any platform
+  async transcribe(audioBlob: Blob): Promise<string> {
+    const formData = new FormData();
+    appendAudio(formData, await this.prepareAudio(audioBlob));
+    const { transcript } = await this.post("/transcribe", formData, transcriptionResponseSchema);
+    return transcript;
+  }
+
+  // Runs an already transcribed (or typed) command against a platform
+  async sendText(
+    text: string,
+    platform: ProjectTool,
+    config: PlatformConfig | null,
+    options: CommandOptions = {}
+  ): Promise<VoiceCommandResponse> {
+    if (credentialStore.isLocked()) {
+      throw new CredentialsLockedError();
+    }
+
+    const formData = new FormData();
+    formData.append("text", text);
+    appendPlatformFields(formData, platform, config);
+    appendCommandOptions(formData, options);
+    return this.post("/send-text-command", formData, voiceCommandResponseSchema);
+  }
+
+  // Applies the operations a reviewer approved, possibly after editing them
+  async applyOperations(
+    operations: ProposedOperation[],
+    platform: ProjectTool,
+    config: PlatformConfig | null
+  ): Promise<VoiceCommandResponse> {
+    if (credentialStore.isLocked()) {
+      throw new CredentialsLockedError();
+    }
+
+    const formData = new FormData();
+    formData.append("operations", JSON.stringify(operations));
+    appendPlatformFields(formData, platform, config);
+    return this.post("/apply-operations", formData, voiceCommandResponseSchema);
+  }
+
+  // Applies the inverse of an earlier result to the same platform entity
+  async undoTask(
+    entityId: string,
+    inverse: InverseOperation,
+    platform: ProjectTool,
+    config: PlatformConfig | null
+  ): Promise<VoiceCommandResponse> {
+    if (credentialStore.isLocked()) {
+      throw new CredentialsLockedError();
+    }
+
+    const formData = new FormData();
+    formData.append("entityId", entityId);
+    formData.append("inverse", JSON.stringify(inverse));
+    appendPlatformFields(formData, platform, config);
+    return this.post("/undo-task", formData, voiceCommandResponseSchema);
+  }
+
+  // Closes a session that ends without a final part, so the backend drops the parts it holds
+  async cancelSession(sessionId: string): Promise<void> {
+    const formData = new FormData();
+    formData.append("sessionId", sessionId);
+    await this.post("/cancel-session", formData, cancelSessionResponseSchema);
+  }
+
+  // Databases the integration has been shared with
+  async listNotionDatabases(integrationToken: string): Promise<NotionDatabase[]> {
+    const formData = new FormData();
+    formData.append("notionToken", integrationToken);
+    const { databases } = await this.post("/notion-databases", formData, notionDatabasesResponseSchema);
+    return databases;
+  }
+
+  // Checks the token and describes the integration it belongs to
+  async checkNotionToken(integrationToken: string): Promise<NotionAccount> {
+    const formData = new FormData();
+    formData.append("notionToken", integrationToken);
+    return this.post("/notion-account", formData, notionAccountResponseSchema);
+  }
+
+  // Projects the account can see, with the issue types each one allows
+  async listJiraProjects(auth: JiraAuth): Promise<JiraProject[]> {
+    const { projects } = await this.post("/jira-projects", jiraAuthFormData(auth), jiraProjectsResponseSchema);
+    return projects;
+  }
+
+  async checkJiraCredentials(auth: JiraAuth): Promise<JiraAccount> {
+    return this.post("/jira-account", jiraAuthFormData(auth), jiraAccountResponseSchema);
+  }
+
+  private post<T>(endpoint: string, body: FormData, schema: z.ZodType<T>): Promise<T> {
+    return this.request(endpoint, { method: "POST", body }, schema);
+  }
+
+  private get<T>(endpoint: string, schema: z.ZodType<T>): Promise<T> {
+    return this.request(endpoint, { method: "GET" }, schema);
+  }
+
+  private async request<T>(endpoint: string, init: RequestInit, schema: z.ZodType<T>): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${endpoint}`, init);
+    } catch (error) {
+      console.error("Error reaching backend:", error);
+      throw new AgilowNetworkError(`Could not reach the Agilow backend (${(error as Error).message})`, error);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new AgilowHttpError(
+        response.status,
+        `Backend responded with ${response.status}${detail ? `: ${detail}` : ""}`
+      );
+    }
+
+    let payload: unknown;
+    try {
+      payload = await response.json();
+    } catch (error) {
+      throw new AgilowSchemaError("Failed to parse backend response as JSON");
+    }
+
+    const parsed = schema.safeParse(payload);
+    if (!parsed.success) {
+      console.error("Unexpected backend response:", payload, parsed.error.issues);
+      throw new AgilowSchemaError("Backend response did not match the expected format", parsed.error.issues);
+    }
+    return parsed.data;
+  }
+}
+
+export const agilowApi = new AgilowApiClient();
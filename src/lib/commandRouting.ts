@@ -0,0 +1,119 @@
+import {
+  agilowApi,
+  AgilowApiError,
+  type ProjectTool,
+  type RecordingSession,
+  type VoiceCommandResponse,
+} from "@/lib/agilowApi";
+import { credentialStore, selectConnectedPlatforms } from "@/lib/credentialStore";
+import { platformAdapters } from "@/lib/platforms";
+
+// Where a voice command goes: a specific platform, or "auto" to let a spoken
+// prefix such as "in Linear, ..." decide
+export type CommandTarget = ProjectTool | "auto";
+
+export interface RoutedVoiceCommand {
+  platform: ProjectTool;
+  data: VoiceCommandResponse;
+}
+
+export const PLATFORM_NAMES = Object.fromEntries(
+  platformAdapters.map((adapter) => [adapter.id, adapter.name])
+) as Record<ProjectTool, string>;
+
+const PREFIX_PATTERN = new RegExp(
+  `^\\s*(?:in|on|to|for)\\s+(${platformAdapters.map((adapter) => adapter.id).join("|")})\\b[\\s,:.-]*`,
+  "i"
+);
+
+export const parsePlatformPrefix = (transcript: string): { platform: ProjectTool | null; command: string } => {
+  const match = transcript.match(PREFIX_PATTERN);
+  if (!match) {
+    return { platform: null, command: transcript.trim() };
+  }
+  return {
+    platform: match[1].toLowerCase() as ProjectTool,
+    command: transcript.slice(match[0].length).trim(),
+  };
+};
+
+// Where a command without a spoken prefix goes
+const defaultPlatform = (connected: ProjectTool[], fallback: ProjectTool | null): ProjectTool | null =>
+  fallback && connected.includes(fallback) ? fallback : connected[0] ?? fallback;
+
+// Settles "auto" without a transcript, for audio that can't be routed by what was said
+// (e.g. a recording part queued offline, whose later parts have to follow it)
+export const settleTarget = (target: CommandTarget, fallback: ProjectTool | null): ProjectTool | null =>
+  target === "auto" ? defaultPlatform(selectConnectedPlatforms(credentialStore.getState()), fallback) : target;
+
+// reviewPlatforms lists the platforms whose commands come back as proposals to approve;
+// session is set when the audio is one part of a longer recording
+export const sendVoiceCommand = async (
+  audioBlob: Blob,
+  target: CommandTarget,
+  fallback: ProjectTool | null,
+  reviewPlatforms: ProjectTool[] = [],
+  session?: RecordingSession
+): Promise<RoutedVoiceCommand> => {
+  const optionsFor = (platform: ProjectTool) => ({ review: reviewPlatforms.includes(platform), session });
+
+  if (target !== "auto") {
+    const data = await agilowApi.sendAudio(audioBlob, target, credentialStore.getCredentials(target), optionsFor(target));
+    return { platform: target, data };
+  }
+
+  // With a single connection there is nothing to route
+  const connected: ProjectTool[] = selectConnectedPlatforms(credentialStore.getState());
+  if (connected.length <= 1) {
+    const platform = connected[0] ?? fallback;
+    if (!platform) {
+      throw new AgilowApiError("No platform is connected");
+    }
+    const data = await agilowApi.sendAudio(audioBlob, platform, credentialStore.getCredentials(platform), optionsFor(platform));
+    return { platform, data };
+  }
+
+  const transcript = await agilowApi.transcribe(audioBlob);
+  return routeText(transcript, connected, fallback, reviewPlatforms, session);
+};
+
+// Typed commands take the same route as transcribed ones, minus speech-to-text
+export const sendTextCommand = async (
+  text: string,
+  target: CommandTarget,
+  fallback: ProjectTool | null,
+  reviewPlatforms: ProjectTool[] = []
+): Promise<RoutedVoiceCommand> => {
+  if (target !== "auto") {
+    const data = await agilowApi.sendText(text, target, credentialStore.getCredentials(target), {
+      review: reviewPlatforms.includes(target),
+    });
+    return { platform: target, data: { ...data, transcript: data.transcript ?? text } };
+  }
+
+  const connected: ProjectTool[] = selectConnectedPlatforms(credentialStore.getState());
+  if (connected.length === 0 && !fallback) {
+    throw new AgilowApiError("No platform is connected");
+  }
+  return routeText(text, connected.length > 0 ? connected : [fallback], fallback, reviewPlatforms);
+};
+
+const routeText = async (
+  text: string,
+  connected: ProjectTool[],
+  fallback: ProjectTool | null,
+  reviewPlatforms: ProjectTool[],
+  session?: RecordingSession
+): Promise<RoutedVoiceCommand> => {
+  const { platform: spoken, command } = parsePlatformPrefix(text);
+  if (spoken && !connected.includes(spoken)) {
+    throw new AgilowApiError(`${PLATFORM_NAMES[spoken]} isn't connected - "${text}" was not sent`);
+  }
+
+  const platform = spoken ?? defaultPlatform(connected, fallback);
+  const data = await agilowApi.sendText(command, platform, credentialStore.getCredentials(platform), {
+    review: reviewPlatforms.includes(platform),
+    session,
+  });
+  return { platform, data: { ...data, transcript: data.transcript ?? text } };
+};
@@ -0,0 +1,497 @@
+import { z } from "zod";
+import Cookies from "js-cookie";
+import type { AsanaConfig, JiraConfig, LinearConfig, NotionConfig, PlatformConfig, ProjectTool, TrelloConfig } from "@/lib/agilowApi";
+import { findPlatformAdapter, getPlatformAdapter, platformAdapters } from "@/lib/platforms";
+import {
+  decryptJson,
+  deriveKeyFromPassphrase,
+  encryptJson,
+  fromBase64,
+  generateSalt,
+  getDeviceKey,
+  toBase64,
+  type EncryptedPayload,
+} from "@/lib/secureStorage";
+
+// Single source of truth for platform credentials. Everything that needs a key,
+// token or board ID reads it from here and subscribes to changes. Credentials are
+// persisted encrypted with AES-GCM and only ever held decrypted in memory.
+
+const STORAGE_KEY = "agilow_credentials";
+
+export type CredentialPlatform = ProjectTool;
+
+export interface PlatformCredentials {
+  trello: TrelloConfig;
+  linear: LinearConfig;
+  asana: AsanaConfig;
+  notion: NotionConfig;
+  jira: JiraConfig;
+}
+
+// Checked against the registry at parse time so adapters can be added freely
+const activePlatformSchema = z
+  .string()
+  .refine((platform) => isCredentialPlatform(platform), "Unknown platform")
+  .nullable();
+
+// Each platform is validated by its adapter; invalid entries are dropped, not fatal
+const parsePlatforms = (value: unknown): Partial<PlatformCredentials> => {
+  const platforms: Partial<PlatformCredentials> = {};
+  const raw = (value ?? {}) as Record<string, unknown>;
+  platformAdapters.forEach((adapter) => {
+    if (raw[adapter.id] === undefined) {
+      return;
+    }
+    const parsed = adapter.schema.safeParse(raw[adapter.id]);
+    if (parsed.success) {
+      (platforms as Record<string, unknown>)[adapter.id] = parsed.data;
+    } else {
+      console.error(`Stored ${adapter.name} credentials are invalid, ignoring them:`, parsed.error.issues);
+    }
+  });
+  return platforms;
+};
+
+// Plaintext layout written before credentials were encrypted
+const plaintextRecordSchema = z.object({
+  version: z.literal(1),
+  activePlatform: activePlatformSchema,
+  platforms: z.record(z.unknown()),
+});
+
+const encryptedRecordSchema = z.object({
+  version: z.literal(2),
+  activePlatform: activePlatformSchema,
+  protection: z.enum(["device", "passphrase"]),
+  salt: z.string().optional(),
+  idleLockMinutes: z.number().positive().nullable(),
+  validatedAt: z.record(z.string()).optional(),
+  payload: z.object({ iv: z.string(), data: z.string() }),
+});
+
+// "device" encrypts with a browser-held key and unlocks silently;
+// "passphrase" needs the user to unlock after every reload or idle lock
+export type CredentialProtection = "device" | "passphrase";
+
+interface EncryptedRecord {
+  version: 2;
+  activePlatform: ProjectTool | null;
+  protection: CredentialProtection;
+  salt?: string;
+  idleLockMinutes: number | null;
+  validatedAt?: Partial<Record<ProjectTool, string>>;
+  payload: EncryptedPayload;
+}
+
+export interface CredentialState {
+  status: "loading" | "locked" | "unlocked";
+  protection: CredentialProtection;
+  idleLockMinutes: number | null;
+  activePlatform: ProjectTool | null;
+  platforms: Partial<PlatformCredentials>;
+  // ISO time each platform's credentials last passed a connection test; not secret
+  validatedAt: Partial<Record<ProjectTool, string>>;
+}
+
+type CredentialListener = (state: CredentialState) => void;
+
+const INITIAL_STATE: CredentialState = {
+  status: "loading",
+  protection: "device",
+  idleLockMinutes: null,
+  activePlatform: null,
+  platforms: {},
+  validatedAt: {},
+};
+
+export class CredentialsLockedError extends Error {
+  constructor() {
+    super("Credentials are locked - unlock them to continue");
+    this.name = "CredentialsLockedError";
+  }
+}
+
+export const isCredentialPlatform = (platform: string | null | undefined): platform is CredentialPlatform =>
+  !!findPlatformAdapter(platform);
+
+// Old builds wrote the literal string "undefined" into cookies
+const readLegacyValue = (value: string | null | undefined): string | undefined =>
+  value && value !== "undefined" ? value : undefined;
+
+const readLegacyJson = (key: string): unknown => {
+  const raw = localStorage.getItem(key);
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch (e) {
+    console.error(`Error parsing legacy ${key}:`, e);
+    return undefined;
+  }
+};
+
+const LEGACY_COOKIES = ["apiKey", "token", "boardId", "workspaceId", "personalAccessToken", "projectId", "platform"];
+const LEGACY_STORAGE_KEYS = ["linear_config", "asana_config", "trello_token"];
+
+// Builds the store from the cookie/localStorage layout used before the store existed.
+// localStorage configs take precedence over cookies, as they did in the dashboards.
+const migrateLegacyCredentials = (): Pick<CredentialState, "activePlatform" | "platforms"> => {
+  const cookie = (name: string) => readLegacyValue(Cookies.get(name));
+  const legacyPlatform = cookie("platform");
+
+  const candidates: Record<CredentialPlatform, unknown> = {
+    trello: {
+      apiKey: (legacyPlatform === "trello" && cookie("apiKey")) || import.meta.env.VITE_TRELLO_APP_KEY || "",
+      token: readLegacyValue(localStorage.getItem("trello_token")) || cookie("token"),
+      boardId: cookie("boardId") || "",
+    },
+    linear: readLegacyJson("linear_config") ?? (legacyPlatform === "linear"
+      ? { apiKey: cookie("apiKey"), workspaceId: cookie("workspaceId") }
+      : undefined),
+    asana: readLegacyJson("asana_config") ?? {
+      personalAccessToken: cookie("personalAccessToken"),
+      projectId: cookie("projectId"),
+    },
+    // Notion and Jira were never stored by older builds
+    notion: undefined,
+    jira: undefined,
+  };
+
+  const platforms: CredentialState["platforms"] = {};
+  (Object.keys(candidates) as CredentialPlatform[]).forEach((platform) => {
+    const parsed = getPlatformAdapter(platform).schema.safeParse(candidates[platform]);
+    if (parsed.success) {
+      (platforms as Record<CredentialPlatform, unknown>)[platform] = parsed.data;
+    }
+  });
+
+  // Prefer the platform the cookie pointed at, then the order Dashboard used to check
+  const activePlatform = isCredentialPlatform(legacyPlatform) && platforms[legacyPlatform]
+    ? legacyPlatform
+    : (["linear", "asana", "trello"] as CredentialPlatform[]).find((platform) => platforms[platform]) ?? null;
+
+  return { activePlatform, platforms };
+};
+
+// Only once the encrypted copy is safely written, so a failed write loses nothing
+const removeLegacyCredentials = () => {
+  LEGACY_COOKIES.forEach((name) => Cookies.remove(name));
+  LEGACY_STORAGE_KEYS.forEach((key) => localStorage.removeItem(key));
+};
+
+export class CredentialStore {
+  private state: CredentialState = INITIAL_STATE;
+  private listeners = new Set<CredentialListener>();
+  private key: CryptoKey | null = null;
+  private salt: string | undefined;
+  private lastPayload: EncryptedPayload | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor() {
+    this.initialize().catch((error) => {
+      console.error("Error loading credentials:", error);
+      this.setState({ ...INITIAL_STATE, status: "unlocked" });
+    });
+
+    // Keep other tabs in sync
+    window.addEventListener("storage", (event) => {
+      if (event.key === STORAGE_KEY) {
+        this.reloadFromStorage();
+      }
+    });
+  }
+
+  getState = (): CredentialState => this.state;
+
+  subscribe = (listener: CredentialListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  isLocked(): boolean {
+    return this.state.status !== "unlocked";
+  }
+
+  getActivePlatform(): ProjectTool | null {
+    return this.state.activePlatform;
+  }
+
+  getCredentials<P extends CredentialPlatform>(platform: P): PlatformCredentials[P] | null;
+  getCredentials(platform: ProjectTool | null | undefined): PlatformConfig | null;
+  getCredentials(platform: ProjectTool | null | undefined): PlatformConfig | null {
+    return selectCredentials(this.state, platform);
+  }
+
+  setCredentials<P extends CredentialPlatform>(platform: P, credentials: PlatformCredentials[P]): void {
+    this.assertUnlocked();
+    const parsed = getPlatformAdapter(platform).schema.parse(credentials) as PlatformCredentials[P];
+    this.commit({
+      ...this.state,
+      platforms: { ...this.state.platforms, [platform]: parsed },
+    });
+  }
+
+  updateCredentials<P extends CredentialPlatform>(platform: P, changes: Partial<PlatformCredentials[P]>): void {
+    const current = this.getCredentials(platform);
+    if (!current) {
+      throw new Error(`No ${platform} credentials to update`);
+    }
+    this.setCredentials(platform, { ...current, ...changes });
+  }
+
+  setActivePlatform(platform: ProjectTool | null): void {
+    this.commit({ ...this.state, activePlatform: platform });
+  }
+
+  // Save credentials and make that platform the one the dashboards open with.
+  // Pass validatedAt when the credentials were just tested; otherwise any old timestamp is dropped.
+  connect<P extends CredentialPlatform>(platform: P, credentials: PlatformCredentials[P], validatedAt?: string): void {
+    this.setCredentials(platform, credentials);
+    const nextValidatedAt = { ...this.state.validatedAt, [platform]: validatedAt };
+    if (!validatedAt) {
+      delete nextValidatedAt[platform];
+    }
+    this.commit({ ...this.state, activePlatform: platform, validatedAt: nextValidatedAt });
+  }
+
+  clearCredentials(platform: CredentialPlatform): void {
+    this.assertUnlocked();
+    const platforms = { ...this.state.platforms };
+    delete platforms[platform];
+    const validatedAt = { ...this.state.validatedAt };
+    delete validatedAt[platform];
+    this.commit({
+      ...this.state,
+      activePlatform: this.state.activePlatform === platform ? null : this.state.activePlatform,
+      platforms,
+      validatedAt,
+    });
+  }
+
+  clearAll(): void {
+    this.assertUnlocked();
+    this.commit({ ...this.state, activePlatform: null, platforms: {}, validatedAt: {} });
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    const record = this.readRecord();
+    if (!record || record.protection !== "passphrase" || !record.salt) {
+      throw new Error("Credentials are not protected by a passphrase");
+    }
+    const key = await deriveKeyFromPassphrase(passphrase, fromBase64(record.salt));
+    let platforms: Partial<PlatformCredentials>;
+    try {
+      platforms = await this.decryptPlatforms(key, record.payload);
+    } catch (error) {
+      throw new Error("Incorrect passphrase");
+    }
+    this.key = key;
+    this.salt = record.salt;
+    this.lastPayload = record.payload;
+    this.setState({ ...this.stateFromRecord(record), status: "unlocked", platforms });
+  }
+
+  // Drops decrypted credentials from memory; only meaningful with a passphrase
+  lock(): void {
+    if (this.state.protection !== "passphrase" || this.state.status !== "unlocked") {
+      return;
+    }
+    this.key = null;
+    this.setState({ ...this.state, status: "locked", platforms: {} });
+  }
+
+  async enablePassphrase(passphrase: string): Promise<void> {
+    this.assertUnlocked();
+    const salt = generateSalt();
+    this.key = await deriveKeyFromPassphrase(passphrase, salt);
+    this.salt = toBase64(salt);
+    this.commit({ ...this.state, protection: "passphrase" });
+  }
+
+  async disablePassphrase(): Promise<void> {
+    this.assertUnlocked();
+    this.key = await getDeviceKey();
+    this.salt = undefined;
+    this.commit({ ...this.state, protection: "device", idleLockMinutes: null });
+  }
+
+  setIdleLockMinutes(minutes: number | null): void {
+    this.commit({ ...this.state, idleLockMinutes: minutes });
+  }
+
+  // Escape hatch for a forgotten passphrase: wipes everything and starts over
+  async reset(): Promise<void> {
+    this.key = await getDeviceKey();
+    this.salt = undefined;
+    this.lastPayload = null;
+    this.commit({ ...INITIAL_STATE, status: "unlocked" });
+  }
+
+  private async initialize(): Promise<void> {
+    const record = this.readRecord();
+    if (record?.protection === "passphrase") {
+      this.salt = record.salt;
+      this.lastPayload = record.payload;
+      this.setState({ ...this.stateFromRecord(record), status: "locked", platforms: {} });
+      return;
+    }
+
+    this.key = await getDeviceKey();
+    if (record) {
+      this.lastPayload = record.payload;
+      const platforms = await this.decryptPlatforms(this.key, record.payload);
+      this.setState({ ...this.stateFromRecord(record), status: "unlocked", platforms });
+      return;
+    }
+
+    // First run after upgrading: encrypt whatever was stored in plaintext
+    const plaintext = this.readPlaintextRecord() ?? migrateLegacyCredentials();
+    if (await this.commit({ ...INITIAL_STATE, ...plaintext, status: "unlocked" })) {
+      removeLegacyCredentials();
+    }
+  }
+
+  private async reloadFromStorage(): Promise<void> {
+    const record = this.readRecord();
+    if (!record) {
+      return;
+    }
+    this.salt = record.salt;
+    this.lastPayload = record.payload;
+    if (record.protection === "device" && !this.key) {
+      this.key = await getDeviceKey();
+    }
+    if (!this.key) {
+      this.setState({ ...this.state, ...this.stateFromRecord(record), status: "locked" });
+      return;
+    }
+    try {
+      const platforms = await this.decryptPlatforms(this.key, record.payload);
+      this.setState({ ...this.stateFromRecord(record), status: "unlocked", platforms });
+    } catch (error) {
+      // The passphrase was changed in another tab
+      this.key = null;
+      this.setState({ ...this.stateFromRecord(record), status: "locked", platforms: {} });
+    }
+  }
+
+  private stateFromRecord(record: EncryptedRecord): Omit<CredentialState, "status" | "platforms"> {
+    return {
+      protection: record.protection,
+      idleLockMinutes: record.idleLockMinutes,
+      activePlatform: record.activePlatform,
+      validatedAt: record.validatedAt ?? {},
+    };
+  }
+
+  private async decryptPlatforms(key: CryptoKey, payload: EncryptedPayload): Promise<Partial<PlatformCredentials>> {
+    const decrypted = await decryptJson<unknown>(key, payload);
+    return parsePlatforms(decrypted);
+  }
+
+  private readRecord(): EncryptedRecord | null {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+    try {
+      const parsed = encryptedRecordSchema.safeParse(JSON.parse(raw));
+      if (parsed.success) {
+        return parsed.data as EncryptedRecord;
+      }
+    } catch (e) {
+      console.error("Error parsing stored credentials:", e);
+    }
+    return null;
+  }
+
+  private readPlaintextRecord(): Pick<CredentialState, "activePlatform" | "platforms"> | null {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+    try {
+      const parsed = plaintextRecordSchema.safeParse(JSON.parse(raw));
+      if (parsed.success) {
+        return {
+          activePlatform: parsed.data.activePlatform as ProjectTool | null,
+          platforms: parsePlatforms(parsed.data.platforms),
+        };
+      }
+      console.error("Stored credentials are invalid, ignoring them:", parsed.error.issues);
+    } catch (e) {
+      console.error("Error parsing stored credentials:", e);
+    }
+    return null;
+  }
+
+  private assertUnlocked(): void {
+    if (this.isLocked()) {
+      throw new CredentialsLockedError();
+    }
+  }
+
+  // Resolves to whether the write succeeded; callers that don't care can ignore it
+  private commit(next: CredentialState): Promise<boolean> {
+    this.setState(next);
+    // Writes are serialised so a slow encryption can't overwrite a newer one
+    const written = this.pendingWrite
+      .then(() => this.write(next))
+      .then(
+        () => true,
+        (error) => {
+          console.error("Error saving credentials:", error);
+          return false;
+        }
+      );
+    this.pendingWrite = written.then(() => undefined);
+    return written;
+  }
+
+  private async write(state: CredentialState): Promise<void> {
+    // While locked only the plaintext settings can change; keep the last ciphertext
+    const payload = this.key ? await encryptJson(this.key, state.platforms) : this.lastPayload;
+    if (!payload) {
+      return;
+    }
+    this.lastPayload = payload;
+    const record: EncryptedRecord = {
+      version: 2,
+      activePlatform: state.activePlatform,
+      protection: state.protection,
+      salt: state.protection === "passphrase" ? this.salt : undefined,
+      idleLockMinutes: state.idleLockMinutes,
+      validatedAt: state.validatedAt,
+      payload,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+  }
+
+  private setState(next: CredentialState): void {
+    this.state = next;
+    this.emit();
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+export function selectCredentials<P extends CredentialPlatform>(state: CredentialState, platform: P): PlatformCredentials[P] | null;
+export function selectCredentials(state: CredentialState, platform: ProjectTool | null | undefined): PlatformConfig | null;
+export function selectCredentials(state: CredentialState, platform: ProjectTool | null | undefined): PlatformConfig | null {
+  if (!isCredentialPlatform(platform)) {
+    return null;
+  }
+  return state.platforms[platform] ?? null;
+}
+
+// Platforms with stored credentials, in a stable order
+export const selectConnectedPlatforms = (state: CredentialState): CredentialPlatform[] =>
+  platformAdapters.map((adapter) => adapter.id).filter((platform) => !!state.platforms[platform]);
+
+export const credentialStore = new CredentialStore();
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { bindingCode, bindingFromEvent, formatBinding, shouldIgnoreShortcuts } from "@/lib/hotkeys";
+
+describe("bindingFromEvent", () => {
+  it("uses the key code on its own", () => {
+    expect(bindingFromEvent(new KeyboardEvent("keydown", { code: "Space" }))).toBe("Space");
+  });
+
+  it("puts modifiers in front in a fixed order", () => {
+    const event = new KeyboardEvent("keydown", { code: "KeyR", shiftKey: true, altKey: true, ctrlKey: true, metaKey: true });
+    expect(bindingFromEvent(event)).toBe("Ctrl+Alt+Shift+Meta+KeyR");
+  });
+
+  it("waits while only a modifier is held", () => {
+    expect(bindingFromEvent(new KeyboardEvent("keydown", { code: "ShiftLeft", shiftKey: true }))).toBeNull();
+  });
+});
+
+describe("bindingCode", () => {
+  it("drops the modifiers", () => {
+    expect(bindingCode("Ctrl+Shift+KeyR")).toBe("KeyR");
+    expect(bindingCode("Space")).toBe("Space");
+  });
+});
+
+describe("formatBinding", () => {
+  it("shows keys the way they are printed on the keyboard", () => {
+    expect(formatBinding("Alt+KeyR")).toBe("Alt + R");
+    expect(formatBinding("Digit1")).toBe("1");
+    expect(formatBinding("ArrowUp")).toBe("Arrow Up");
+  });
+});
+
+describe("shouldIgnoreShortcuts", () => {
+  const mount = (html: string): HTMLElement => {
+    document.body.innerHTML = html;
+    return document.body.querySelector("[data-target]");
+  };
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  it("lets shortcuts through on the page itself", () => {
+    expect(shouldIgnoreShortcuts(document.body)).toBe(false);
+    expect(shouldIgnoreShortcuts(mount("<div data-target>Recent actions</div>"))).toBe(false);
+  });
+
+  it.each([
+    ["a text field", "<input data-target />"],
+    ["a textarea", "<textarea data-target></textarea>"],
+    ["a native select", "<select data-target></select>"],
+    ["an editable element", '<div contenteditable="true" data-target></div>'],
+  ])("ignores them while typing in %s", (_, html) => {
+    const target = mount(html);
+    // jsdom doesn't derive isContentEditable from the attribute
+    if (target.hasAttribute("contenteditable")) {
+      Object.defineProperty(target, "isContentEditable", { value: true });
+    }
+    expect(shouldIgnoreShortcuts(target)).toBe(true);
+  });
+
+  it.each([
+    ["a button", "<button data-target>Save</button>"],
+    ["inside a button", "<button><span data-target>Save</span></button>"],
+    ["a checkbox", '<button role="checkbox" data-target></button>'],
+    ["a select option", '<div role="listbox"><div role="option" data-target>Linear</div></div>'],
+    ["a combobox", '<div role="combobox" data-target></div>'],
+  ])("ignores them on %s", (_, html) => {
+    expect(shouldIgnoreShortcuts(mount(html))).toBe(true);
+  });
+
+  it("ignores them anywhere while a dialog is open", () => {
+    const target = mount('<div data-target></div><div role="dialog" aria-modal="true"></div>');
+    expect(shouldIgnoreShortcuts(target)).toBe(true);
+    expect(shouldIgnoreShortcuts(null)).toBe(true);
+  });
+});
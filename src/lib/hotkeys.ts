@@ -0,0 +1,65 @@
+// Keyboard shortcuts for recording. A binding is KeyboardEvent.code with any
+// modifiers in front, e.g. "Space" or "Alt+KeyR", so it doesn't depend on the layout.
+
+export type HotkeyAction = "pushToTalk" | "toggleRecording" | "cancelRecording" | "flushSegment";
+
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+export const HOTKEY_ACTIONS: { action: HotkeyAction; label: string; description: string }[] = [
+  { action: "pushToTalk", label: "Push to talk", description: "Hold to record, release to send" },
+  { action: "toggleRecording", label: "Start / stop recording", description: "Same as the Start Recording button" },
+  { action: "cancelRecording", label: "Cancel recording", description: "Stop without sending anything" },
+  { action: "flushSegment", label: "Send segment now", description: "Continuous mode: send what was said so far" },
+];
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  pushToTalk: "Space",
+  toggleRecording: "KeyR",
+  cancelRecording: "Escape",
+  flushSegment: "KeyS",
+};
+
+const MODIFIER_CODES = ["ShiftLeft", "ShiftRight", "ControlLeft", "ControlRight", "AltLeft", "AltRight", "MetaLeft", "MetaRight"];
+
+// null while only modifiers are held, so a rebind waits for the actual key
+export const bindingFromEvent = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_CODES.includes(event.code)) {
+    return null;
+  }
+  const modifiers = [
+    event.ctrlKey && "Ctrl",
+    event.altKey && "Alt",
+    event.shiftKey && "Shift",
+    event.metaKey && "Meta",
+  ].filter(Boolean);
+  return [...modifiers, event.code].join("+");
+};
+
+// Releasing a held key may happen after its modifiers are let go, so key-up only compares codes
+export const bindingCode = (binding: string): string => binding.split("+").pop();
+
+export const formatBinding = (binding: string): string =>
+  binding
+    .split("+")
+    .map((part) => part.replace(/^Key/, "").replace(/^Digit/, "").replace(/^Arrow/, "Arrow "))
+    .join(" + ");
+
+// Focused controls that already give Space, letters or Esc a meaning (buttons, checkboxes, select and command lists)
+const CONTROL_SELECTOR = 'button, [role="button"], [role="checkbox"], [role="option"], [role="combobox"], [role="listbox"], [role="menuitem"]';
+// An open dialog owns the keyboard, e.g. Esc closes it instead of cancelling the recording
+const DIALOG_SELECTOR = '[role="dialog"], [role="alertdialog"]';
+
+// Shortcuts must not fire while the user is typing, working a focused control or in a dialog
+export const shouldIgnoreShortcuts = (target: EventTarget | null): boolean => {
+  if (document.querySelector(DIALOG_SELECTOR)) {
+    return true;
+  }
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+    target.closest(CONTROL_SELECTOR) !== null
+  );
+};
@@ -0,0 +1,79 @@
+import { withoutSecrets } from "@/lib/queuedTarget";
+
+// Thin promise wrapper around the app's single IndexedDB database.
+// Every object store is declared here so upgrades happen in one place.
+
+const DB_NAME = "agilow";
+const DB_VERSION = 4;
+
+export const STORES = {
+  voiceQueue: "voiceQueue",
+  keys: "keys",
+  activityLog: "activityLog",
+  utterances: "utterances",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.voiceQueue)) {
+        db.createObjectStore(STORES.voiceQueue, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.keys)) {
+        db.createObjectStore(STORES.keys, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORES.activityLog)) {
+        db.createObjectStore(STORES.activityLog, { keyPath: "id" }).createIndex("timestamp", "timestamp");
+      }
+      if (!db.objectStoreNames.contains(STORES.utterances)) {
+        db.createObjectStore(STORES.utterances, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+      }
+      // Version 1 queued commands together with their plaintext credentials
+      if (event.oldVersion === 1) {
+        const cursorRequest = request.transaction.objectStore(STORES.voiceQueue).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) {
+            return;
+          }
+          cursor.update({ ...cursor.value, config: withoutSecrets(cursor.value.config) });
+          cursor.continue();
+        };
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
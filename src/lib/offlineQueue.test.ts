@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { getRetryDelay, isDue, nextInLine, type QueuedVoiceCommand } from "@/lib/offlineQueue";
+
+const NOW = Date.parse("2024-05-01T10:00:00.000Z");
+
+const queued = (id: string, changes: Partial<QueuedVoiceCommand> = {}): QueuedVoiceCommand => ({
+  id,
+  audio: new Blob(),
+  platform: "linear",
+  config: null,
+  createdAt: new Date(NOW).toISOString(),
+  attempts: 0,
+  nextAttemptAt: NOW,
+  ...changes,
+});
+
+describe("getRetryDelay", () => {
+  it("doubles with every attempt", () => {
+    expect([0, 1, 2, 3].map(getRetryDelay)).toEqual([2000, 4000, 8000, 16000]);
+  });
+
+  it("never waits longer than five minutes", () => {
+    expect(getRetryDelay(10)).toBe(5 * 60 * 1000);
+    expect(getRetryDelay(100)).toBe(5 * 60 * 1000);
+  });
+});
+
+describe("isDue", () => {
+  it("is due once the backoff has passed", () => {
+    expect(isDue(queued("1", { nextAttemptAt: NOW - 1 }), NOW)).toBe(true);
+    expect(isDue(queued("1", { nextAttemptAt: NOW }), NOW)).toBe(true);
+    expect(isDue(queued("1", { nextAttemptAt: NOW + 1 }), NOW)).toBe(false);
+  });
+
+  it("skips the backoff when forced", () => {
+    expect(isDue(queued("1", { nextAttemptAt: NOW + 60000 }), NOW, true)).toBe(true);
+  });
+
+  it("leaves items the backend rejected for a manual retry, even when forced", () => {
+    const rejected = queued("1", { nextAttemptAt: Infinity });
+    expect(isDue(rejected, NOW)).toBe(false);
+    expect(isDue(rejected, NOW, true)).toBe(false);
+  });
+});
+
+describe("nextInLine", () => {
+  it("keeps every standalone command", () => {
+    const items = [queued("1"), queued("2")];
+    expect(nextInLine(items)).toEqual(items);
+  });
+
+  it("keeps only the earliest queued part of each recording", () => {
+    const first = queued("a1", { session: { id: "a", part: 1, final: false } });
+    const second = queued("a2", { session: { id: "a", part: 2, final: true } });
+    const other = queued("b0", { session: { id: "b", part: 0, final: true } });
+    const standalone = queued("1");
+    expect(nextInLine([first, standalone, second, other]).map((item) => item.id)).toEqual(["a1", "1", "b0"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { STORES, withStore } from "@/lib/indexedDb";
+import type { PlatformConfig, ProjectTool, RecordingSession } from "@/lib/agilowApi";
+import { withoutSecrets, type QueuedTarget } from "@/lib/queuedTarget";
+
+// A voice command whose upload failed, kept until it is delivered or discarded
+export interface QueuedVoiceCommand {
+  id: string;
+  audio: Blob;
+  // null when recorded in auto mode; routed by spoken prefix on delivery
+  platform: ProjectTool | null;
+  config: QueuedTarget | null;
+  // Set for one part of a long recording, so it is still stitched once delivered
+  session?: RecordingSession;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+
+// Backed-off items come due on their own; a forced flush (back online, unlocked) skips the
+// wait but not items the backend rejected, which only go out again on a manual retry
+export const isDue = (item: QueuedVoiceCommand, now: number, force = false): boolean =>
+  item.nextAttemptAt <= now || (force && Number.isFinite(item.nextAttemptAt));
+
+// Later parts of a recording wait for the earliest queued one, so only that one is due on its own
+export const nextInLine = (items: QueuedVoiceCommand[]): QueuedVoiceCommand[] =>
+  items.filter((item, index) => !item.session || items.findIndex((other) => other.session?.id === item.session.id) === index);
+
+export const enqueueVoiceCommand = async (
+  audio: Blob,
+  platform: ProjectTool | null,
+  config: PlatformConfig | null,
+  lastError?: string,
+  session?: RecordingSession
+): Promise<QueuedVoiceCommand> => {
+  const item: QueuedVoiceCommand = {
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    audio,
+    platform,
+    config: withoutSecrets(config),
+    ...(session ? { session } : {}),
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: Date.now(),
+    lastError,
+  };
+  await withStore(STORES.voiceQueue, "readwrite", (store) => store.put(item));
+  return item;
+};
+
+export const listQueuedVoiceCommands = async (): Promise<QueuedVoiceCommand[]> => {
+  const items = await withStore<QueuedVoiceCommand[]>(STORES.voiceQueue, "readonly", (store) => store.getAll());
+  return items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+export const updateQueuedVoiceCommand = (item: QueuedVoiceCommand): Promise<IDBValidKey> =>
+  withStore(STORES.voiceQueue, "readwrite", (store) => store.put(item));
+
+export const removeQueuedVoiceCommand = (id: string): Promise<undefined> =>
+  withStore(STORES.voiceQueue, "readwrite", (store) => store.delete(id));
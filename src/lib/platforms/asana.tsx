@@ -0,0 +1,126 @@
+import { z } from "zod";
+import { Notebook } from "lucide-react";
+import type { AsanaConfig } from "@/lib/agilowApi";
+import type { PlatformAdapter, PlatformFieldOption } from "./types";
+
+interface AsanaResource {
+  gid: string;
+  name: string;
+}
+
+export interface AsanaUser extends AsanaResource {
+  workspaces: AsanaResource[];
+}
+
+const asanaGet = async <T,>(token: string, path: string): Promise<T> => {
+  const res = await fetch(`https://app.asana.com/api/1.0${path}`, {
+    headers: { Authorization: `Bearer ${token}`, Accept: "application/json" },
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.errors?.[0]?.message || `Asana responded with ${res.status}`);
+  }
+  return body.data as T;
+};
+
+// Validates the token and lists the workspaces it can reach
+export const fetchAsanaUser = (token: string): Promise<AsanaUser> =>
+  asanaGet<AsanaUser>(token, "/users/me?opt_fields=name,workspaces.name");
+
+export const fetchAsanaProjects = (token: string, workspaceId: string): Promise<AsanaResource[]> =>
+  asanaGet<AsanaResource[]>(token, `/projects?workspace=${workspaceId}&archived=false&opt_fields=name&limit=100`);
+
+export const fetchAsanaSections = (token: string, projectId: string): Promise<AsanaResource[]> =>
+  asanaGet<AsanaResource[]>(token, `/projects/${projectId}/sections?opt_fields=name`);
+
+const toOptions = (resources: AsanaResource[]): PlatformFieldOption[] =>
+  resources.map((resource) => ({ value: resource.gid, label: resource.name }));
+
+export const asanaAdapter: PlatformAdapter<AsanaConfig> = {
+  id: "asana",
+  name: "Asana",
+  description: "Personal access token with workspace and project discovery",
+  features: ["Personal Access Token", "Project Discovery", "Voice Commands"],
+  color: "from-orange-500 to-orange-600",
+  Icon: ({ className }) => <Notebook className={className} />,
+  logo: (
+    <img
+      src="https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcScD1nIKyMQn9x7WWbGxQqVk31VJ5Vb5YFnwg&s"
+      alt="Asana Logo"
+      className="w-full h-full object-cover rounded-full"
+      draggable="false"
+    />
+  ),
+  fields: [
+    {
+      name: "personalAccessToken",
+      label: "Personal Access Token",
+      placeholder: "Enter your Asana personal access token",
+      type: "password",
+      help: "Get your Asana personal access token from your Asana profile settings.",
+    },
+    {
+      name: "workspaceId",
+      label: "Workspace",
+      placeholder: "Choose a workspace",
+      type: "select",
+      dependsOn: ["personalAccessToken"],
+      loadOptions: async ({ personalAccessToken }) =>
+        toOptions((await fetchAsanaUser(personalAccessToken)).workspaces),
+    },
+    {
+      name: "projectId",
+      label: "Project",
+      placeholder: "Choose a project",
+      type: "select",
+      dependsOn: ["personalAccessToken", "workspaceId"],
+      loadOptions: async ({ personalAccessToken, workspaceId }) =>
+        toOptions(await fetchAsanaProjects(personalAccessToken, workspaceId)),
+    },
+    {
+      name: "sectionId",
+      label: "Default Section",
+      placeholder: "Choose a section (optional)",
+      type: "select",
+      optional: true,
+      help: "New tasks land here unless the command names another section.",
+      dependsOn: ["personalAccessToken", "projectId"],
+      loadOptions: async ({ personalAccessToken, projectId }) =>
+        toOptions(await fetchAsanaSections(personalAccessToken, projectId)),
+    },
+  ],
+  docs: { text: "Get your personal access token from", label: "Asana My Apps", href: "https://app.asana.com/0/my-apps" },
+  schema: z
+    .object({
+      personalAccessToken: z.string().min(1),
+      // Configs saved before workspace discovery only have a project
+      workspaceId: z.string().optional(),
+      projectId: z.string().min(1),
+      sectionId: z.string().optional(),
+    })
+    // Spelled out so the schema is checked against AsanaConfig (see the Linear adapter)
+    .transform(
+      (config): AsanaConfig => ({
+        personalAccessToken: config.personalAccessToken,
+        workspaceId: config.workspaceId,
+        projectId: config.projectId,
+        sectionId: config.sectionId,
+      })
+    ),
+  secretFields: ["personalAccessToken"],
+  testConnection: async ({ personalAccessToken, workspaceId }) => {
+    const user = await fetchAsanaUser(personalAccessToken);
+    const workspace = user.workspaces.find((candidate) => candidate.gid === workspaceId);
+    return `Signed in as ${user.name}${workspace ? ` in ${workspace.name}` : ""}`;
+  },
+  appendFormData(formData, config) {
+    formData.append("asanaToken", config.personalAccessToken);
+    if (config.workspaceId) {
+      formData.append("asanaWorkspaceId", config.workspaceId);
+    }
+    formData.append("asanaProjectId", config.projectId);
+    if (config.sectionId) {
+      formData.append("asanaSectionId", config.sectionId);
+    }
+  },
+};
@@ -0,0 +1,70 @@
+import type { PlatformConfig, ProjectTool } from "@/lib/agilowApi";
+import { asanaAdapter } from "./asana";
+import { jiraAdapter } from "./jira";
+import { linearAdapter } from "./linear";
+import { notionAdapter } from "./notion";
+import { trelloAdapter } from "./trello";
+import type { PlatformAdapter, PlatformFieldValues } from "./types";
+
+export type { PlatformAdapter, PlatformField, PlatformFieldOption, PlatformFieldValues } from "./types";
+
+// Display order for selection pages and pickers
+export const platformAdapters: PlatformAdapter[] = [
+  trelloAdapter,
+  linearAdapter,
+  asanaAdapter,
+  notionAdapter,
+  jiraAdapter,
+];
+
+const adaptersById = new Map(platformAdapters.map((adapter) => [adapter.id, adapter]));
+
+export const getPlatformAdapter = (platform: ProjectTool): PlatformAdapter => adaptersById.get(platform);
+
+export const findPlatformAdapter = (platform: string | null | undefined): PlatformAdapter | null =>
+  adaptersById.get(platform as ProjectTool) ?? null;
+
+export const getEmptyFieldValues = (adapter: PlatformAdapter): PlatformFieldValues =>
+  Object.fromEntries(adapter.fields.map((field) => [field.name, ""]));
+
+// Saved credentials as form values. Only the adapter's fields are kept, and only string values,
+// so settings edited elsewhere (e.g. Trello board defaults) stay out of the form.
+export const toFieldValues = (adapter: PlatformAdapter, config: PlatformConfig | null): PlatformFieldValues => {
+  const saved = new Map(Object.entries(config ?? {}));
+  return Object.fromEntries(
+    adapter.fields.map((field) => {
+      const value = saved.get(field.name);
+      return [field.name, typeof value === "string" ? value : ""];
+    })
+  );
+};
+
+// Sets a field and clears any picker whose options depend on it
+export const applyFieldChange = (
+  adapter: PlatformAdapter,
+  values: PlatformFieldValues,
+  name: string,
+  value: string
+): PlatformFieldValues => {
+  const next = { ...values, [name]: value };
+  adapter.fields
+    .filter((field) => field.dependsOn?.includes(name))
+    .forEach((field) => {
+      next[field.name] = "";
+    });
+  return next;
+};
+
+// Returns a message naming the first missing or invalid field, or null when valid
+export const validatePlatformConfig = (
+  adapter: PlatformAdapter,
+  config: PlatformConfig | PlatformFieldValues | null
+): string | null => {
+  const parsed = adapter.schema.safeParse(config ?? {});
+  if (parsed.success) {
+    return null;
+  }
+  const fieldName = parsed.error.issues[0]?.path[0];
+  const label = adapter.fields.find((field) => field.name === fieldName)?.label ?? fieldName;
+  return `${label} is missing or invalid. Please configure your ${adapter.name} credentials.`;
+};
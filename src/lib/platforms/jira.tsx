@@ -0,0 +1,121 @@
+import { z } from "zod";
+import { SquareKanban } from "lucide-react";
+import type { AgilowApiClient, JiraAuth, JiraConfig, JiraProject } from "@/lib/agilowApi";
+import type { PlatformAdapter } from "./types";
+
+// Accepts "acme", "acme.atlassian.net" or a full URL
+export const normalizeJiraSiteUrl = (siteUrl: string): string => {
+  let url = siteUrl.trim().replace(/\/+$/, "");
+  if (url && !url.includes(".")) {
+    url = `${url}.atlassian.net`;
+  }
+  if (url && !/^https?:\/\//.test(url)) {
+    url = `https://${url}`;
+  }
+  return url;
+};
+
+// The project and issue-type pickers read the same list, so share one request per account
+const projectRequests = new Map<string, Promise<JiraProject[]>>();
+
+const loadJiraProjects = (api: AgilowApiClient, auth: JiraAuth): Promise<JiraProject[]> => {
+  const key = `${auth.siteUrl}|${auth.email}|${auth.apiToken}`;
+  if (!projectRequests.has(key)) {
+    const request = api.listJiraProjects({ ...auth, siteUrl: normalizeJiraSiteUrl(auth.siteUrl) });
+    projectRequests.set(key, request.catch((error) => {
+      projectRequests.delete(key);
+      throw error;
+    }));
+  }
+  return projectRequests.get(key);
+};
+
+const AUTH_FIELDS = ["siteUrl", "email", "apiToken"];
+
+export const jiraAdapter: PlatformAdapter<JiraConfig> = {
+  id: "jira",
+  name: "Jira",
+  description: "Manual configuration with your Atlassian email and API token",
+  features: ["API Token Setup", "Project & Issue Type Picker", "Voice Commands"],
+  color: "from-sky-500 to-blue-700",
+  Icon: ({ className }) => <SquareKanban className={className} />,
+  logo: (
+    <div className="w-full h-full flex items-center justify-center bg-white rounded-full">
+      <SquareKanban className="w-1/2 h-1/2 text-blue-600" />
+    </div>
+  ),
+  fields: [
+    { name: "siteUrl", label: "Site URL", placeholder: "your-team.atlassian.net", type: "text" },
+    { name: "email", label: "Email", placeholder: "Enter your Atlassian account email", type: "email" },
+    {
+      name: "apiToken",
+      label: "API Token",
+      placeholder: "Enter your Atlassian API token",
+      type: "password",
+      help: "Create an API token at id.atlassian.com under Security.",
+    },
+    {
+      name: "projectKey",
+      label: "Project",
+      placeholder: "Choose a project",
+      type: "select",
+      dependsOn: AUTH_FIELDS,
+      loadOptions: async ({ siteUrl, email, apiToken }, api) =>
+        (await loadJiraProjects(api, { siteUrl, email, apiToken })).map((project) => ({
+          value: project.key,
+          label: `${project.name} (${project.key})`,
+        })),
+    },
+    {
+      name: "issueTypeId",
+      label: "Issue Type",
+      placeholder: "Choose an issue type",
+      type: "select",
+      help: "New issues from voice commands are created with this type.",
+      dependsOn: [...AUTH_FIELDS, "projectKey"],
+      loadOptions: async ({ siteUrl, email, apiToken, projectKey }, api) => {
+        const projects = await loadJiraProjects(api, { siteUrl, email, apiToken });
+        // Voice commands create top-level issues, so sub-task types are left out
+        const issueTypes = (projects.find((project) => project.key === projectKey)?.issueTypes ?? []).filter(
+          (issueType) => !issueType.subtask
+        );
+        return issueTypes.map((issueType) => ({ value: issueType.id, label: issueType.name }));
+      },
+    },
+  ],
+  docs: {
+    text: "Create an API token in your",
+    label: "Atlassian account settings",
+    href: "https://id.atlassian.com/manage-profile/security/api-tokens",
+  },
+  schema: z
+    .object({
+      siteUrl: z.string().min(1),
+      email: z.string().email(),
+      apiToken: z.string().min(1),
+      projectKey: z.string().min(1),
+      issueTypeId: z.string().min(1),
+    })
+    // Spelled out so the schema is checked against JiraConfig (see the Linear adapter)
+    .transform(
+      (config): JiraConfig => ({
+        siteUrl: config.siteUrl,
+        email: config.email,
+        apiToken: config.apiToken,
+        projectKey: config.projectKey,
+        issueTypeId: config.issueTypeId,
+      })
+    ),
+  secretFields: ["apiToken"],
+  testConnection: async ({ siteUrl, email, apiToken }, api) => {
+    const user = await api.checkJiraCredentials({ siteUrl: normalizeJiraSiteUrl(siteUrl), email, apiToken });
+    return `Signed in as ${user.displayName} on ${new URL(normalizeJiraSiteUrl(siteUrl)).host}`;
+  },
+  appendFormData(formData, config) {
+    formData.append("jiraSiteUrl", config.siteUrl);
+    formData.append("jiraEmail", config.email);
+    formData.append("jiraApiToken", config.apiToken);
+    formData.append("jiraProjectKey", config.projectKey);
+    formData.append("jiraIssueTypeId", config.issueTypeId);
+  },
+};
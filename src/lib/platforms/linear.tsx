@@ -0,0 +1,182 @@
+import { z } from "zod";
+import type { LinearConfig } from "@/lib/agilowApi";
+import linearLogo from "@/assets/linear-logo.svg";
+import type { PlatformAdapter, PlatformFieldOption } from "./types";
+
+interface LinearNode {
+  id: string;
+  name: string;
+}
+
+export interface LinearCycle {
+  id: string;
+  name: string | null;
+  number: number;
+  isActive: boolean;
+}
+
+// Personal API keys go in the Authorization header as-is, without "Bearer"
+const linearQuery = async <T,>(apiKey: string, query: string, variables?: Record<string, unknown>): Promise<T> => {
+  const res = await fetch("https://api.linear.app/graphql", {
+    method: "POST",
+    headers: { Authorization: apiKey, "Content-Type": "application/json" },
+    body: JSON.stringify({ query, variables }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok || body.errors?.length) {
+    throw new Error(body.errors?.[0]?.message || `Linear responded with ${res.status}`);
+  }
+  return body.data as T;
+};
+
+export const fetchLinearViewer = async (apiKey: string): Promise<{ name: string; organization: LinearNode }> => {
+  const data = await linearQuery<{ viewer: { name: string; organization: LinearNode } }>(
+    apiKey,
+    "query { viewer { name organization { id name } } }"
+  );
+  return data.viewer;
+};
+
+// Doubles as API key validation: an invalid key fails here before anything else is asked
+export const fetchLinearWorkspace = async (apiKey: string): Promise<LinearNode> => {
+  const data = await linearQuery<{ viewer: { organization: LinearNode } }>(
+    apiKey,
+    "query { viewer { organization { id name } } }"
+  );
+  return data.viewer.organization;
+};
+
+export const fetchLinearTeams = async (apiKey: string): Promise<LinearNode[]> => {
+  const data = await linearQuery<{ teams: { nodes: LinearNode[] } }>(
+    apiKey,
+    "query { teams(first: 100) { nodes { id name } } }"
+  );
+  return data.teams.nodes;
+};
+
+export const fetchLinearProjects = async (apiKey: string, teamId: string): Promise<LinearNode[]> => {
+  const data = await linearQuery<{ team: { projects: { nodes: LinearNode[] } } }>(
+    apiKey,
+    "query($teamId: String!) { team(id: $teamId) { projects(first: 100) { nodes { id name } } } }",
+    { teamId }
+  );
+  return data.team.projects.nodes;
+};
+
+// Current and upcoming cycles; past ones can't take new issues
+export const fetchLinearCycles = async (apiKey: string, teamId: string): Promise<LinearCycle[]> => {
+  const data = await linearQuery<{ team: { cycles: { nodes: LinearCycle[] } } }>(
+    apiKey,
+    "query($teamId: String!) { team(id: $teamId) { cycles(first: 20, filter: { isPast: { eq: false } }) { nodes { id name number isActive } } } }",
+    { teamId }
+  );
+  return data.team.cycles.nodes;
+};
+
+const toOptions = (nodes: LinearNode[]): PlatformFieldOption[] =>
+  nodes.map((node) => ({ value: node.id, label: node.name }));
+
+export const linearAdapter: PlatformAdapter<LinearConfig> = {
+  id: "linear",
+  name: "Linear",
+  description: "API key setup with team and project discovery",
+  features: ["API Key Setup", "Team Discovery", "Voice Commands"],
+  color: "from-purple-500 to-purple-600",
+  Icon: ({ className }) => <img src={linearLogo} alt="Linear" className={className} />,
+  logo: (
+    <img
+      src="https://cdn.brandfetch.io/linear.app/fallback/lettermark/theme/dark/h/256/w/256/icon?c=1bfwsmEH20zzEfSNTed"
+      alt="Linear Logo"
+      className="w-full h-full object-cover rounded-full"
+      draggable="false"
+    />
+  ),
+  fields: [
+    {
+      name: "apiKey",
+      label: "Linear API Key",
+      placeholder: "Enter your Linear API key",
+      type: "password",
+      help: "You can find your Linear API key in your Linear account settings.",
+    },
+    {
+      name: "workspaceId",
+      label: "Workspace",
+      placeholder: "Choose your workspace",
+      type: "select",
+      help: "Found from your API key once Linear accepts it.",
+      dependsOn: ["apiKey"],
+      loadOptions: async ({ apiKey }) => toOptions([await fetchLinearWorkspace(apiKey)]),
+    },
+    {
+      name: "teamId",
+      label: "Team",
+      placeholder: "Choose a team",
+      type: "select",
+      dependsOn: ["apiKey", "workspaceId"],
+      loadOptions: async ({ apiKey }) => toOptions(await fetchLinearTeams(apiKey)),
+    },
+    {
+      name: "projectId",
+      label: "Project",
+      placeholder: "Choose a project (optional)",
+      type: "select",
+      optional: true,
+      dependsOn: ["apiKey", "teamId"],
+      loadOptions: async ({ apiKey, teamId }) => toOptions(await fetchLinearProjects(apiKey, teamId)),
+    },
+    {
+      name: "cycleId",
+      label: "Cycle",
+      placeholder: "Choose a cycle (optional)",
+      type: "select",
+      optional: true,
+      dependsOn: ["apiKey", "teamId"],
+      loadOptions: async ({ apiKey, teamId }): Promise<PlatformFieldOption[]> =>
+        (await fetchLinearCycles(apiKey, teamId)).map((cycle) => ({
+          value: cycle.id,
+          label: `${cycle.name || `Cycle ${cycle.number}`}${cycle.isActive ? " (active)" : ""}`,
+        })),
+    },
+  ],
+  docs: { text: "Get your API key from", label: "Linear API Settings", href: "https://linear.app/settings/api" },
+  schema: z
+    .object({
+      apiKey: z.string().min(1),
+      workspaceId: z.string().min(1),
+      // Configs saved before team discovery have no team; the backend then picks one
+      teamId: z.string().optional(),
+      projectId: z.string().optional(),
+      cycleId: z.string().optional(),
+    })
+    // Without strict mode zod infers every key as optional, so the config is spelled
+    // out here to keep the schema checked against LinearConfig
+    .transform(
+      (config): LinearConfig => ({
+        apiKey: config.apiKey,
+        workspaceId: config.workspaceId,
+        teamId: config.teamId,
+        projectId: config.projectId,
+        cycleId: config.cycleId,
+      })
+    ),
+  secretFields: ["apiKey"],
+  testConnection: async ({ apiKey }) => {
+    const viewer = await fetchLinearViewer(apiKey);
+    return `Signed in as ${viewer.name} in ${viewer.organization.name}`;
+  },
+  audioEndpoint: "/send-audio-linear",
+  appendFormData(formData, config) {
+    formData.append("apiKey", config.apiKey);
+    formData.append("workspaceId", config.workspaceId);
+    if (config.teamId) {
+      formData.append("teamId", config.teamId);
+    }
+    if (config.projectId) {
+      formData.append("projectId", config.projectId);
+    }
+    if (config.cycleId) {
+      formData.append("cycleId", config.cycleId);
+    }
+  },
+};
@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { FileText, Notebook } from "lucide-react";
+import type { NotionConfig } from "@/lib/agilowApi";
+import type { PlatformAdapter } from "./types";
+
+export const notionAdapter: PlatformAdapter<NotionConfig> = {
+  id: "notion",
+  name: "Notion",
+  description: "Manual configuration with an internal integration token",
+  features: ["Integration Token", "Database Picker", "Voice Commands"],
+  color: "from-gray-700 to-gray-900",
+  Icon: ({ className }) => <FileText className={className} />,
+  logo: (
+    <div className="w-full h-full flex items-center justify-center bg-white rounded-full">
+      <Notebook className="w-1/2 h-1/2 text-gray-900" />
+    </div>
+  ),
+  fields: [
+    {
+      name: "integrationToken",
+      label: "Integration Token",
+      placeholder: "Enter your Notion integration token",
+      type: "password",
+      help: "Create an internal integration at notion.so/my-integrations and share your database with it.",
+    },
+    {
+      name: "databaseId",
+      label: "Database",
+      placeholder: "Choose a database",
+      type: "select",
+      help: "Only databases shared with the integration are listed.",
+      dependsOn: ["integrationToken"],
+      loadOptions: async ({ integrationToken }, api) =>
+        (await api.listNotionDatabases(integrationToken)).map((db) => ({ value: db.id, label: db.name })),
+    },
+  ],
+  docs: {
+    text: "Create an internal integration and share your task database with it at",
+    label: "Notion My Integrations",
+    href: "https://www.notion.so/my-integrations",
+  },
+  schema: z
+    .object({
+      integrationToken: z.string().min(1),
+      databaseId: z.string().min(1),
+    })
+    // Spelled out so the schema is checked against NotionConfig (see the Linear adapter)
+    .transform(
+      (config): NotionConfig => ({
+        integrationToken: config.integrationToken,
+        databaseId: config.databaseId,
+      })
+    ),
+  secretFields: ["integrationToken"],
+  testConnection: async ({ integrationToken }, api) => {
+    const { name, workspace } = await api.checkNotionToken(integrationToken);
+    return `Connected as ${name || "integration"}${workspace ? ` in ${workspace}` : ""}`;
+  },
+  appendFormData(formData, config) {
+    formData.append("notionToken", config.integrationToken);
+    formData.append("notionDatabaseId", config.databaseId);
+  },
+};
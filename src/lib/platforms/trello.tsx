@@ -0,0 +1,185 @@
+import { z } from "zod";
+import { Trello } from "lucide-react";
+import type { TrelloConfig } from "@/lib/agilowApi";
+import type { PlatformAdapter, PlatformFieldOption } from "./types";
+
+// Lives here rather than in supabase.ts so the registry doesn't import the credential store
+export const initiateTrelloOAuth = () => {
+  const redirectUri = `${window.location.origin}/trello-callback`;
+  const scope = "read,write";
+  const expiration = "never";
+  const name = "Agilow";
+
+  const oauthUrl = `https://trello.com/1/authorize?expiration=${expiration}&name=${encodeURIComponent(name)}&scope=${scope}&response_type=token&key=${import.meta.env.VITE_TRELLO_APP_KEY}&return_url=${encodeURIComponent(redirectUri)}`;
+
+  window.location.href = oauthUrl;
+};
+
+export interface TrelloBoard {
+  id: string;
+  name: string;
+}
+
+export const fetchTrelloBoards = async (apiKey: string, token: string): Promise<TrelloBoard[]> => {
+  const res = await fetch(`https://api.trello.com/1/members/me/boards?key=${apiKey}&token=${token}`);
+  const boards = await res.json().catch(() => null);
+  if (Array.isArray(boards)) {
+    return boards.map((b: TrelloBoard) => ({ id: b.id, name: b.name }));
+  }
+  throw new Error(boards?.message || "Unknown error fetching boards");
+};
+
+export interface TrelloLabel {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+export interface TrelloCard {
+  id: string;
+  name: string;
+  due: string | null;
+  dueComplete: boolean;
+  labels: TrelloLabel[];
+}
+
+export interface TrelloList {
+  id: string;
+  name: string;
+  cards: TrelloCard[];
+}
+
+// Open lists of a board with their open cards, in board order
+export const fetchTrelloBoardLists = async (apiKey: string, token: string, boardId: string): Promise<TrelloList[]> => {
+  const res = await fetch(
+    `https://api.trello.com/1/boards/${boardId}/lists?filter=open&cards=open&card_fields=name,due,dueComplete,labels&key=${apiKey}&token=${token}`
+  );
+  const lists = await res.json().catch(() => null);
+  if (res.ok && Array.isArray(lists)) {
+    return lists.map((list: TrelloList) => ({
+      id: list.id,
+      name: list.name,
+      cards: (list.cards || []).map((card) => ({
+        id: card.id,
+        name: card.name,
+        due: card.due,
+        dueComplete: !!card.dueComplete,
+        labels: card.labels || [],
+      })),
+    }));
+  }
+  throw new Error(lists?.message || "Unknown error fetching board lists");
+};
+
+export interface TrelloMember {
+  id: string;
+  fullName: string;
+  username: string;
+}
+
+export const fetchTrelloBoardLabels = async (apiKey: string, token: string, boardId: string): Promise<TrelloLabel[]> => {
+  const res = await fetch(`https://api.trello.com/1/boards/${boardId}/labels?fields=name,color&key=${apiKey}&token=${token}`);
+  const labels = await res.json().catch(() => null);
+  if (res.ok && Array.isArray(labels)) {
+    return labels.map((label: TrelloLabel) => ({ id: label.id, name: label.name, color: label.color }));
+  }
+  throw new Error(labels?.message || "Unknown error fetching board labels");
+};
+
+export const fetchTrelloBoardMembers = async (apiKey: string, token: string, boardId: string): Promise<TrelloMember[]> => {
+  const res = await fetch(`https://api.trello.com/1/boards/${boardId}/members?key=${apiKey}&token=${token}`);
+  const members = await res.json().catch(() => null);
+  if (res.ok && Array.isArray(members)) {
+    return members.map((member: TrelloMember) => ({ id: member.id, fullName: member.fullName, username: member.username }));
+  }
+  throw new Error(members?.message || "Unknown error fetching board members");
+};
+
+export const fetchTrelloMember = async (apiKey: string, token: string): Promise<{ fullName: string; username: string }> => {
+  const res = await fetch(`https://api.trello.com/1/members/me?fields=fullName,username&key=${apiKey}&token=${token}`);
+  // Trello answers auth failures with plain text such as "invalid key"
+  const body = await res.text();
+  if (!res.ok) {
+    throw new Error(body || `Trello responded with ${res.status}`);
+  }
+  return JSON.parse(body);
+};
+
+export const trelloAdapter: PlatformAdapter<TrelloConfig> = {
+  id: "trello",
+  name: "Trello",
+  description: "Seamless integration with automatic board discovery",
+  features: ["OAuth Integration", "Auto Board Discovery", "Voice Commands"],
+  color: "from-blue-500 to-blue-600",
+  recommended: true,
+  Icon: ({ className }) => <Trello className={className} />,
+  logo: (
+    <img
+      src="https://images.icon-icons.com/836/PNG/512/Trello_icon-icons.com_66775.png"
+      alt="Trello Logo"
+      className="w-full h-full object-cover rounded-full"
+      draggable="false"
+    />
+  ),
+  fields: [
+    { name: "apiKey", label: "Trello API Key", placeholder: "Enter your Trello API Key", type: "text" },
+    { name: "token", label: "Trello Token", placeholder: "Enter your Trello Token", type: "text" },
+    {
+      name: "boardId",
+      label: "Board",
+      placeholder: "Choose a board",
+      type: "select",
+      dependsOn: ["apiKey", "token"],
+      loadOptions: async ({ apiKey, token }): Promise<PlatformFieldOption[]> =>
+        (await fetchTrelloBoards(apiKey, token)).map((board) => ({ value: board.id, label: board.name })),
+    },
+  ],
+  docs: { text: "Get your API key and token from", label: "Trello App Key", href: "https://trello.com/app-key" },
+  schema: z
+    .object({
+      apiKey: z.string(),
+      token: z.string().min(1),
+      // OAuth hands us a token before a board has been picked
+      boardId: z.string(),
+      boardDefaults: z
+        .record(
+          z.object({
+            listId: z.string().optional(),
+            labelIds: z.array(z.string()).optional(),
+            memberIds: z.array(z.string()).optional(),
+          })
+        )
+        .optional(),
+    })
+    // Spelled out so the schema is checked against TrelloConfig (see the Linear adapter)
+    .transform(
+      (config): TrelloConfig => ({
+        apiKey: config.apiKey,
+        token: config.token,
+        boardId: config.boardId,
+        boardDefaults: config.boardDefaults,
+      })
+    ),
+  secretFields: ["apiKey", "token"],
+  testConnection: async ({ apiKey, token }) => {
+    const member = await fetchTrelloMember(apiKey, token);
+    return `Signed in as ${member.fullName || member.username}`;
+  },
+  startOAuth: initiateTrelloOAuth,
+  appendFormData(formData, config) {
+    formData.append("apiKey", config.apiKey);
+    formData.append("token", config.token);
+    formData.append("boardId", config.boardId);
+    // Defaults only; a list named in the command ("in Doing") still wins on the backend
+    const defaults = config.boardDefaults?.[config.boardId];
+    if (defaults?.listId) {
+      formData.append("defaultListId", defaults.listId);
+    }
+    if (defaults?.labelIds?.length) {
+      formData.append("defaultLabelIds", defaults.labelIds.join(","));
+    }
+    if (defaults?.memberIds?.length) {
+      formData.append("defaultMemberIds", defaults.memberIds.join(","));
+    }
+  },
+};
@@ -0,0 +1,55 @@
+import type React from "react";
+import type { z } from "zod";
+import type { AgilowApiClient, PlatformConfig, ProjectTool } from "@/lib/agilowApi";
+
+export interface PlatformFieldOption {
+  value: string;
+  label: string;
+}
+
+// Form values while a platform is being configured; every field is a string
+export type PlatformFieldValues = Record<string, string>;
+
+export interface PlatformField {
+  name: string;
+  label: string;
+  placeholder: string;
+  type: "text" | "email" | "password" | "select";
+  help?: string;
+  // May be left empty when saving
+  optional?: boolean;
+  // Select fields stay disabled until these are filled, and are cleared when they change
+  dependsOn?: string[];
+  // Workspace/board/project discovery for select fields. The client is passed in for
+  // platforms that are only reachable through the backend, so adapters don't import it.
+  loadOptions?: (values: PlatformFieldValues, api: AgilowApiClient) => Promise<PlatformFieldOption[]>;
+}
+
+// Everything the app needs to know about one project tool. Adding a tool means
+// writing one of these and listing it in the registry.
+export interface PlatformAdapter<C extends PlatformConfig = PlatformConfig> {
+  id: ProjectTool;
+  name: string;
+  description: string;
+  features: string[];
+  // Tailwind gradient used for buttons and logo circles
+  color: string;
+  recommended?: boolean;
+  // Small inline mark for lists and logs
+  Icon: React.FC<{ className?: string }>;
+  // Full-size logo for the selection and configuration pages
+  logo: React.ReactNode;
+  fields: PlatformField[];
+  docs?: { text: string; label: string; href: string };
+  // Validates and normalises credentials before they are stored
+  schema: z.ZodType<C, z.ZodTypeDef, unknown>;
+  // Never persisted outside the encrypted credential store
+  secretFields: string[];
+  // Checks the credentials against the platform itself and describes the account
+  testConnection: (config: C, api: AgilowApiClient) => Promise<string>;
+  // Start an OAuth flow instead of showing the manual form
+  startOAuth?: () => void;
+  // Backend endpoint for voice commands, when not the shared /send-audio
+  audioEndpoint?: string;
+  appendFormData(formData: FormData, config: C): void;
+}
@@ -0,0 +1,16 @@
+import type { PlatformConfig } from "@/lib/agilowApi";
+import { platformAdapters } from "@/lib/platforms";
+
+// Secrets stay in the encrypted credential store. Queued items only remember the
+// target (board, workspace, project) and pick up credentials again when sent.
+
+export type QueuedTarget = Partial<PlatformConfig>;
+
+export const withoutSecrets = (config: PlatformConfig | Record<string, unknown> | null): QueuedTarget | null => {
+  if (!config) {
+    return null;
+  }
+  const target = { ...config } as Record<string, unknown>;
+  platformAdapters.forEach((adapter) => adapter.secretFields.forEach((field) => delete target[field]));
+  return target as QueuedTarget;
+};
@@ -0,0 +1,71 @@
+import { STORES, withStore } from "@/lib/indexedDb";
+
+// AES-GCM helpers for keeping secrets encrypted at rest in the browser
+
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+const DEVICE_KEY_ID = "credentials";
+const PBKDF2_ITERATIONS = 310000;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+export const generateSalt = (): Uint8Array => crypto.getRandomValues(new Uint8Array(16));
+
+// A non-extractable key that never leaves this browser profile. CryptoKey objects
+// are structured-cloneable, so IndexedDB can hold them without exposing the bytes.
+export const getDeviceKey = async (): Promise<CryptoKey> => {
+  const stored = await withStore<{ id: string; key: CryptoKey } | undefined>(
+    STORES.keys,
+    "readonly",
+    (store) => store.get(DEVICE_KEY_ID)
+  );
+  if (stored) {
+    return stored.key;
+  }
+
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+  await withStore(STORES.keys, "readwrite", (store) => store.put({ id: DEVICE_KEY_ID, key }));
+  return key;
+};
+
+export const deriveKeyFromPassphrase = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, encoder.encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+// Rejects when the key is wrong or the payload was tampered with
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.data)
+  );
+  return JSON.parse(decoder.decode(plaintext)) as T;
+};
@@ -1,52 +1,28 @@
+import { credentialStore } from './credentialStore';
+import { initiateTrelloOAuth } from './platforms/trello';
+
 // Trello OAuth Configuration
 export const TRELLO_APP_KEY = import.meta.env.VITE_TRELLO_APP_KEY;
 export const TRELLO_APP_SECRET = import.meta.env.VITE_TRELLO_APP_SECRET;
 
-// OAuth providers configuration
-export const oauthProviders = {
-  trello: {
-    name: 'Trello',
-    icon: '🎯',
-    color: 'from-blue-500 to-blue-600',
-    description: 'Seamless integration with automatic board discovery'
-  },
-  linear: {
-    name: 'Linear',
-    icon: '⚡',
-    color: 'from-purple-500 to-purple-600',
-    description: 'Manual configuration with API key'
-  },
-  asana: {
-    name: 'Asana',
-    icon: '📋',
-    color: 'from-orange-500 to-orange-600',
-    description: 'Manual configuration with personal access token'
-  }
-};
-
-// Helper function to initiate Trello OAuth
-export const initiateTrelloOAuth = () => {
-  const redirectUri = `${window.location.origin}/trello-callback`;
-  const scope = 'read,write';
-  const expiration = 'never';
-  const name = 'Agilow';
-  
-  const oauthUrl = `https://trello.com/1/authorize?expiration=${expiration}&name=${encodeURIComponent(name)}&scope=${scope}&response_type=token&key=${TRELLO_APP_KEY}&return_url=${encodeURIComponent(redirectUri)}`;
-  
-  window.location.href = oauthUrl;
-};
+export { initiateTrelloOAuth };
 
 // Helper function to get stored Trello token
 export const getTrelloToken = () => {
-  return localStorage.getItem('trello_token');
+  return credentialStore.getCredentials('trello')?.token ?? null;
 };
 
 // Helper function to store Trello token
-export const storeTrelloToken = (token: string) => {
-  localStorage.setItem('trello_token', token);
+export const storeTrelloToken = (token: string, boardId?: string | null) => {
+  const existing = credentialStore.getCredentials('trello');
+  credentialStore.connect('trello', {
+    apiKey: existing?.apiKey || TRELLO_APP_KEY || '',
+    token,
+    boardId: boardId || existing?.boardId || '',
+  });
 };
 
 // Helper function to clear Trello token
 export const clearTrelloToken = () => {
-  localStorage.removeItem('trello_token');
+  credentialStore.clearCredentials('trello');
 }; 
\ No newline at end of file
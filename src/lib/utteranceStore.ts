@@ -0,0 +1,57 @@
+import { STORES, withStore } from "@/lib/indexedDb";
+
+// Recorded audio kept so each command can be replayed from the activity log.
+// Oldest recordings are evicted once the total passes the budget.
+
+export const UTTERANCE_BUDGET_BYTES = 25 * 1024 * 1024;
+
+interface StoredUtterance {
+  id: string;
+  audio: Blob;
+  size: number;
+  createdAt: string;
+}
+
+const evictOverBudget = async (budget: number): Promise<void> => {
+  const utterances = await withStore<StoredUtterance[]>(STORES.utterances, "readonly", (store) =>
+    store.index("createdAt").getAll()
+  );
+  let total = utterances.reduce((sum, utterance) => sum + utterance.size, 0);
+  const stale: string[] = [];
+  for (const utterance of utterances) {
+    if (total <= budget) {
+      break;
+    }
+    stale.push(utterance.id);
+    total -= utterance.size;
+  }
+  if (stale.length === 0) {
+    return;
+  }
+  await withStore(STORES.utterances, "readwrite", (store) => {
+    stale.forEach((id) => store.delete(id));
+    return store.count();
+  });
+};
+
+export const saveUtterance = async (audio: Blob, budget = UTTERANCE_BUDGET_BYTES): Promise<string | null> => {
+  // A single recording bigger than the whole budget is not worth keeping
+  if (audio.size > budget) {
+    return null;
+  }
+  const utterance: StoredUtterance = {
+    id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+    audio,
+    size: audio.size,
+    createdAt: new Date().toISOString(),
+  };
+  await withStore(STORES.utterances, "readwrite", (store) => store.put(utterance));
+  await evictOverBudget(budget);
+  return utterance.id;
+};
+
+// null once the recording has been evicted
+export const getUtterance = async (id: string): Promise<Blob | null> => {
+  const utterance = await withStore<StoredUtterance | undefined>(STORES.utterances, "readonly", (store) => store.get(id));
+  return utterance?.audio ?? null;
+};
@@ -4,9 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useNavigate } from 'react-router-dom';
-import { Trello, Zap, Notebook } from 'lucide-react';
-import { initiateTrelloOAuth, oauthProviders, getTrelloToken } from '@/lib/supabase';
-import Cookies from 'js-cookie';
+import { credentialStore } from '@/lib/credentialStore';
+import { findPlatformAdapter, platformAdapters } from '@/lib/platforms';
 
 interface AppOption {
   id: string;
@@ -21,71 +20,30 @@ interface AppOption {
 const AppSelection = () => {
   const navigate = useNavigate();
 
-  const appOptions: AppOption[] = [
-    {
-      id: 'trello',
-      name: 'Trello',
-      description: 'Seamless integration with automatic board discovery',
-      icon: (
-        <img
-          src="https://images.icon-icons.com/836/PNG/512/Trello_icon-icons.com_66775.png"
-          alt="Trello Logo"
-          className="w-full h-full object-cover rounded-full"
-          draggable="false"
-        />
-      ),
-      status: 'recommended',
-      features: ['OAuth Integration', 'Auto Board Discovery', 'Voice Commands'],
-      color: 'from-blue-500 to-blue-600'
-    },
-    {
-      id: 'linear',
-      name: 'Linear',
-      description: 'Manual configuration with API key',
-      icon: (
-        <img
-          src="https://cdn.brandfetch.io/linear.app/fallback/lettermark/theme/dark/h/256/w/256/icon?c=1bfwsmEH20zzEfSNTed"
-          alt="Linear Logo"
-          className="w-full h-full object-cover rounded-full"
-          draggable="false"
-        />
-      ),
-      status: 'available',
-      features: ['API Key Setup', 'Workspace Management', 'Voice Commands'],
-      color: 'from-purple-500 to-purple-600'
-    },
-    {
-      id: 'asana',
-      name: 'Asana',
-      description: 'Manual configuration with personal access token',
-      icon: (
-        <img
-          src="https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcScD1nIKyMQn9x7WWbGxQqVk31VJ5Vb5YFnwg&s"
-          alt="Asana Logo"
-          className="w-full h-full object-cover rounded-full"
-          draggable="false"
-        />
-      ),
-      status: 'available',
-      features: ['Personal Access Token', 'Project Management', 'Voice Commands'],
-      color: 'from-orange-500 to-orange-600'
-    }
-  ];
+  const appOptions: AppOption[] = platformAdapters.map((adapter) => ({
+    id: adapter.id,
+    name: adapter.name,
+    description: adapter.description,
+    icon: adapter.logo,
+    status: adapter.recommended ? 'recommended' : 'available',
+    features: adapter.features,
+    color: adapter.color,
+  }));
 
   const [isLoading, setIsLoading] = useState<string | null>(null);
 
   const handleAppSelection = async (appId: string) => {
-    if (appId === 'trello') {
-      // Check for existing Trello token
-      const trelloToken = getTrelloToken() || Cookies.get('token');
-      if (trelloToken) {
-        navigate('/dashboard', { state: { platform: 'trello', token: trelloToken } });
+    const adapter = findPlatformAdapter(appId);
+    if (adapter?.startOAuth) {
+      // Skip the OAuth round trip when we already hold a token
+      if (credentialStore.getCredentials(adapter.id)) {
+        navigate('/dashboard', { state: { platform: adapter.id } });
         return;
       }
       try {
         setIsLoading(appId);
-        initiateTrelloOAuth();
-        // Trello will handle the redirect
+        adapter.startOAuth();
+        // The provider will handle the redirect
       } catch (error) {
         console.error('OAuth error:', error);
         // Fallback to manual configuration
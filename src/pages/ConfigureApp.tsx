@@ -2,24 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useNavigate, useParams } from 'react-router-dom';
-import { Zap, Notebook, ArrowLeft, CheckCircle } from 'lucide-react';
-
-interface AppConfig {
-  id: string;
-  name: string;
-  icon: React.ReactNode;
-  color: string;
-  fields: {
-    name: string;
-    label: string;
-    placeholder: string;
-    type: 'text' | 'password';
-    required: boolean;
-  }[];
-}
+import { ArrowLeft, CheckCircle } from 'lucide-react';
+import { credentialStore } from '@/lib/credentialStore';
+import { applyFieldChange, findPlatformAdapter, toFieldValues } from '@/lib/platforms';
+import { agilowApi } from '@/lib/agilowApi';
+import PlatformFieldInput from '@/components/PlatformFieldInput';
 
 const ConfigureApp = () => {
   const navigate = useNavigate();
@@ -27,66 +16,16 @@ const ConfigureApp = () => {
   const [formData, setFormData] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   // Pre-fill form with existing config if present
   useEffect(() => {
-    if (appId === 'linear') {
-      const saved = localStorage.getItem('linear_config');
-      if (saved) setFormData(JSON.parse(saved));
-    } else if (appId === 'asana') {
-      const saved = localStorage.getItem('asana_config');
-      if (saved) setFormData(JSON.parse(saved));
-    }
+    const adapter = findPlatformAdapter(appId);
+    const saved = adapter && credentialStore.getCredentials(adapter.id);
+    if (saved) setFormData(toFieldValues(adapter, saved));
   }, [appId]);
 
-  const appConfigs: Record<string, AppConfig> = {
-    linear: {
-      id: 'linear',
-      name: 'Linear',
-      icon: <img src="https://cdn.brandfetch.io/linear.app/fallback/lettermark/theme/dark/h/256/w/256/icon?c=1bfwsmEH20zzEfSNTed" alt="Linear Logo" className="w-full h-full object-contain" />, // updated icon
-      color: 'from-purple-500 to-purple-600',
-      fields: [
-        {
-          name: 'apiKey',
-          label: 'Linear API Key',
-          placeholder: 'Enter your Linear API key',
-          type: 'password',
-          required: true
-        },
-        {
-          name: 'workspaceId',
-          label: 'Workspace ID',
-          placeholder: 'Enter your Linear workspace ID',
-          type: 'text',
-          required: true
-        }
-      ]
-    },
-    asana: {
-      id: 'asana',
-      name: 'Asana',
-      icon: <img src="https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcScD1nIKyMQn9x7WWbGxQqVk31VJ5Vb5YFnwg&s" alt="Asana Logo" className="w-full h-full object-contain" />, // updated icon
-      color: 'from-orange-500 to-orange-600',
-      fields: [
-        {
-          name: 'personalAccessToken',
-          label: 'Personal Access Token',
-          placeholder: 'Enter your Asana personal access token',
-          type: 'password',
-          required: true
-        },
-        {
-          name: 'projectId',
-          label: 'Project ID',
-          placeholder: 'Enter your Asana project ID',
-          type: 'text',
-          required: true
-        }
-      ]
-    }
-  };
-
-  const currentApp = appConfigs[appId || ''];
+  const currentApp = findPlatformAdapter(appId);
 
   if (!currentApp) {
     return (
@@ -105,19 +44,18 @@ const ConfigureApp = () => {
   }
 
   const handleInputChange = (fieldName: string, value: string) => {
-    setFormData(prev => ({
-      ...prev,
-      [fieldName]: value
-    }));
+    setFormData(prev => applyFieldChange(currentApp, prev, fieldName, value));
+    setSubmitError(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
+    setSubmitError(null);
 
     // Validate required fields
     const missingFields = currentApp.fields
-      .filter(field => field.required && !formData[field.name])
+      .filter(field => !field.optional && !formData[field.name])
       .map(field => field.label);
 
     if (missingFields.length > 0) {
@@ -127,21 +65,18 @@ const ConfigureApp = () => {
     }
 
     try {
-      // Store configuration in localStorage
-      if (appId === 'linear') {
-        localStorage.setItem('linear_config', JSON.stringify(formData));
-      } else if (appId === 'asana') {
-        localStorage.setItem('asana_config', JSON.stringify(formData));
-      }
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Saved settings without a form field (e.g. Trello board defaults) are kept
+      const config = currentApp.schema.parse({ ...credentialStore.getCredentials(currentApp.id), ...formData });
+      // Only store credentials the platform has accepted
+      await currentApp.testConnection(config, agilowApi);
+      credentialStore.connect(currentApp.id, config, new Date().toISOString());
       setIsSuccess(true);
       setTimeout(() => {
-        navigate('/dashboard', { state: { platform: appId, config: formData } });
+        navigate('/dashboard', { state: { platform: appId } });
       }, 2000);
     } catch (error) {
       console.error('Configuration error:', error);
-      alert('Failed to save configuration. Please try again.');
+      setSubmitError(`Couldn't connect to ${currentApp.name}: ${(error as Error).message}`);
     } finally {
       setIsSubmitting(false);
     }
@@ -200,7 +135,7 @@ const ConfigureApp = () => {
               </div>
               <div className="flex items-center space-x-4">
                 <div className="w-20 h-20 rounded-full bg-gradient-to-br from-gray-100 via-white to-blue-100 flex items-center justify-center shadow-lg border border-gray-200">
-                  {currentApp.icon}
+                  {currentApp.logo}
                 </div>
                 <div>
                   <CardTitle className="text-3xl font-extrabold text-gray-900">
@@ -225,23 +160,15 @@ const ConfigureApp = () => {
                   >
                     <Label htmlFor={field.name} className="text-base font-semibold text-gray-700">
                       {field.label}
-                      {field.required && <span className="text-red-500 ml-1">*</span>}
+                      {!field.optional && <span className="text-red-500 ml-1">*</span>}
                     </Label>
-                    <Input
-                      id={field.name}
-                      type={field.type}
-                      placeholder={field.placeholder}
-                      value={formData[field.name] || ''}
-                      onChange={(e) => handleInputChange(field.name, e.target.value)}
-                      required={field.required}
+                    <PlatformFieldInput
+                      field={field}
+                      values={formData}
+                      onChange={handleInputChange}
                       className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-blue-400 transition-all duration-200 shadow-sm hover:border-blue-300"
                     />
-                    <p className="text-xs text-gray-500 pl-1">
-                      {field.name === 'apiKey' && currentApp.id === 'linear' && 'You can find your Linear API key in your Linear account settings.'}
-                      {field.name === 'workspaceId' && currentApp.id === 'linear' && 'Enter your Linear workspace ID.'}
-                      {field.name === 'personalAccessToken' && currentApp.id === 'asana' && 'Get your Asana personal access token from your Asana profile settings.'}
-                      {field.name === 'projectId' && currentApp.id === 'asana' && 'Enter your Asana project ID.'}
-                    </p>
+                    {field.help && <p className="text-xs text-gray-500 pl-1">{field.help}</p>}
                   </motion.div>
                 ))}
                 <motion.div
@@ -250,6 +177,11 @@ const ConfigureApp = () => {
                   transition={{ duration: 0.6, delay: 0.4 }}
                   className="pt-2"
                 >
+                  {submitError && (
+                    <div className="mb-4 rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                      {submitError}
+                    </div>
+                  )}
                   <Button
                     type="submit"
                     disabled={isSubmitting}
@@ -8,9 +8,13 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { Trello, Loader2, Mic, Settings, LogOut } from 'lucide-react';
 import VoiceManagerNew from '@/components/VoiceManagerNew';
 import { Label } from '@/components/ui/label';
-import { getTrelloToken, clearTrelloToken } from '@/lib/supabase';
+import { getTrelloToken } from '@/lib/supabase';
+import { credentialStore, selectConnectedPlatforms, selectCredentials } from '@/lib/credentialStore';
+import { useCredentials } from '@/hooks/useCredentials';
+import type { TrelloBoardDefaults as BoardDefaults } from '@/lib/agilowApi';
 import UnifiedDashboard from '@/components/UnifiedDashboard';
-import Cookies from 'js-cookie';
+import TrelloBoardView from '@/components/TrelloBoardView';
+import TrelloBoardDefaults from '@/components/TrelloBoardDefaults';
 
 interface TrelloBoard {
   id: string;
@@ -38,10 +42,18 @@ const Dashboard = () => {
   const navigate = useNavigate();
   const [platform, setPlatform] = useState<string>('');
   const [boards, setBoards] = useState<TrelloBoard[]>([]);
-  const [selectedBoard, setSelectedBoard] = useState<string>('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string>('');
   const [trelloBoardError, setTrelloBoardError] = useState<string | null>(null);
+  const [boardRefreshKey, setBoardRefreshKey] = useState(0);
+  const credentials = useCredentials();
+  const trelloConfig = selectCredentials(credentials, 'trello');
+  // The Trello-only view can't route commands, so it is kept for a single Trello connection
+  const showsTrelloView = platform === 'trello' && selectConnectedPlatforms(credentials).length <= 1;
+  // The stored board, or the first one when none is stored or it is no longer accessible
+  const selectedBoard = boards.some((board) => board.id === trelloConfig?.boardId)
+    ? trelloConfig.boardId
+    : boards[0]?.id ?? '';
 
 
   useEffect(() => {
@@ -51,30 +63,14 @@ const Dashboard = () => {
       setIsLoading(false);
       return;
     }
-    // Fallback: check localStorage for Linear/Asana config
-    const linearConfig = localStorage.getItem('linear_config');
-    if (linearConfig) {
-      setPlatform('linear');
-      setIsLoading(false);
-      return;
-    }
-    const asanaConfig = localStorage.getItem('asana_config');
-    if (asanaConfig) {
-      setPlatform('asana');
-      setIsLoading(false);
-      return;
-    }
-    const trelloToken = getTrelloToken();
-    if (trelloToken) {
-      setPlatform('trello');
-      fetchTrelloBoards(trelloToken);
-      return;
-    }
-    // Check for legacy Trello token
-    const legacyTrelloToken = localStorage.getItem('trello_token');
-    if (legacyTrelloToken) {
-      setPlatform('trello');
-      fetchTrelloBoards(legacyTrelloToken);
+    // Fallback: the platform last connected, if its credentials are still stored
+    const activePlatform = credentialStore.getActivePlatform();
+    if (activePlatform && credentialStore.getCredentials(activePlatform)) {
+      setPlatform(activePlatform);
+      // Trello boards are fetched below once the platform is set
+      if (activePlatform !== 'trello') {
+        setIsLoading(false);
+      }
       return;
     }
     // No configuration found, redirect to app selection
@@ -82,13 +78,10 @@ const Dashboard = () => {
   }, [location, navigate]);
 
   useEffect(() => {
-    if (platform === 'trello') {
+    if (showsTrelloView) {
       // Always try to get the latest token and API key
       const apiKey = import.meta.env.VITE_TRELLO_APP_KEY;
-      let token = getTrelloToken();
-      if (!token || token === 'undefined') {
-        token = Cookies.get('token');
-      }
+      const token = getTrelloToken();
 
       if (!apiKey || !token) {
         setTrelloBoardError('Missing Trello API key or token. Please re-authorize.');
@@ -97,8 +90,7 @@ const Dashboard = () => {
       }
       fetchTrelloBoards(token);
     }
-    // eslint-disable-next-line
-  }, [platform, location]);
+  }, [showsTrelloView, location]);
 
   const fetchTrelloBoards = async (token: string) => {
     try {
@@ -106,11 +98,8 @@ const Dashboard = () => {
       setError('');
       setTrelloBoardError(null);
       const apiKey = import.meta.env.VITE_TRELLO_APP_KEY;
-      // Fallback: if token is undefined, try to get from cookies
-      let realToken = token;
-      if (!realToken || realToken === 'undefined') {
-        realToken = Cookies.get('token');
-      }
+      // Fallback: if no token was passed, use the stored one
+      const realToken = token || getTrelloToken();
       if (!apiKey || !realToken) {
         setTrelloBoardError('Missing Trello API key or token. Please re-authorize.');
         setBoards([]);
@@ -132,9 +121,6 @@ const Dashboard = () => {
         lists: board.lists || []
       }));
       setBoards(transformedBoards);
-      if (transformedBoards.length > 0) {
-        setSelectedBoard(transformedBoards[0].id);
-      }
     } catch (err: any) {
       setError('Failed to load your Trello boards. Please try again.');
       setTrelloBoardError(err.message || 'Failed to fetch Trello boards');
@@ -147,9 +133,7 @@ const Dashboard = () => {
   const handleLogout = async () => {
     try {
       // Clear all stored configurations
-      clearTrelloToken();
-      localStorage.removeItem('linear_config');
-      localStorage.removeItem('asana_config');
+      credentialStore.clearAll();
       
       // Redirect to landing page
       navigate('/');
@@ -160,10 +144,24 @@ const Dashboard = () => {
     }
   };
 
+  // Saved with the Trello credentials so the board survives a reload
   const handleBoardChange = (boardId: string) => {
-    setSelectedBoard(boardId);
+    credentialStore.updateCredentials('trello', { boardId });
   };
 
+  // Defaults are stored per board with the Trello credentials, as on the unified dashboard
+  const handleBoardDefaultsChange = (defaults: BoardDefaults) => {
+    if (trelloConfig && selectedBoard) {
+      credentialStore.updateCredentials('trello', {
+        boardDefaults: { ...trelloConfig.boardDefaults, [selectedBoard]: defaults },
+      });
+    }
+  };
+
+  if (platform && !showsTrelloView) {
+    return <UnifiedDashboard />;
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 flex items-center justify-center">
@@ -205,10 +203,6 @@ const Dashboard = () => {
     );
   }
 
-  if (platform !== 'trello') {
-    return <UnifiedDashboard />;
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
       {/* Header */}
@@ -283,6 +277,15 @@ const Dashboard = () => {
                     {trelloBoardError && (
                       <div className="mt-2 text-sm text-red-500">{trelloBoardError}</div>
                     )}
+                    {trelloConfig && selectedBoard && (
+                      <TrelloBoardDefaults
+                        apiKey={trelloConfig.apiKey}
+                        token={trelloConfig.token}
+                        boardId={selectedBoard}
+                        defaults={trelloConfig.boardDefaults?.[selectedBoard] ?? {}}
+                        onChange={handleBoardDefaultsChange}
+                      />
+                    )}
                     
                     <div className="pt-4">
                       <h4 className="text-sm font-medium text-gray-700 mb-2">Available Boards</h4>
@@ -329,12 +332,19 @@ const Dashboard = () => {
             initial={{ opacity: 0, x: 20 }}
             animate={{ opacity: 1, x: 0 }}
             transition={{ duration: 0.6, delay: 0.4 }}
-            className="lg:col-span-3"
+            className="lg:col-span-3 space-y-8"
           >
             <VoiceManagerNew 
               platform={platform}
               selectedBoard={selectedBoard}
               boards={boards}
+              onResult={() => setBoardRefreshKey((prev) => prev + 1)}
+            />
+            <TrelloBoardView
+              apiKey={import.meta.env.VITE_TRELLO_APP_KEY}
+              token={getTrelloToken()}
+              boardId={selectedBoard}
+              refreshKey={boardRefreshKey}
             />
           </motion.div>
         </div>
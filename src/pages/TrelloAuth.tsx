@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Trello, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { storeTrelloToken } from '@/lib/supabase';
 
 const TrelloAuth = () => {
   const navigate = useNavigate();
@@ -24,7 +25,7 @@ const TrelloAuth = () => {
       // Successfully got token from Trello
       setAuthStatus('success');
       // Store the token and redirect to dashboard
-      localStorage.setItem('trello_token', token);
+      storeTrelloToken(token);
       setTimeout(() => {
         navigate('/dashboard', { state: { platform: 'trello', token } });
       }, 2000);
@@ -4,7 +4,6 @@ import { Card, CardContent } from '@/components/ui/card';
 import { useNavigate } from 'react-router-dom';
 import { Loader2, CheckCircle, AlertCircle } from 'lucide-react';
 import { storeTrelloToken } from '@/lib/supabase';
-import Cookies from 'js-cookie';
 
 const TrelloCallback = () => {
   const navigate = useNavigate();
@@ -27,10 +26,6 @@ const TrelloCallback = () => {
         }
 
         if (token) {
-          // Store the token
-          storeTrelloToken(token);
-          Cookies.set('token', token, { expires: 365 * 50 });
-
           // Fetch boards and store the first boardId automatically
           const apiKey = import.meta.env.VITE_TRELLO_APP_KEY;
           const boardsRes = await fetch(`https://api.trello.com/1/members/me/boards?key=${apiKey}&token=${token}`);
@@ -38,9 +33,11 @@ const TrelloCallback = () => {
           let boardId = null;
           if (Array.isArray(boards) && boards.length > 0) {
             boardId = boards[0].id;
-            Cookies.set('boardId', boardId, { expires: 365 * 50 });
           }
 
+          // Store the token along with the first board
+          storeTrelloToken(token, boardId);
+
           setStatus('success');
           // Redirect to dashboard after a short delay
           setTimeout(() => {
@@ -0,0 +1,21 @@
+// Upload formats the client can transcode to, and the messages exchanged with the transcoder worker
+
+export type AudioFormat = "ogg-opus" | "wav";
+
+export const AUDIO_FORMATS: AudioFormat[] = ["ogg-opus", "wav"];
+
+export const TRANSCODE_SAMPLE_RATE = 16000;
+
+export const isAudioFormat = (value: string): value is AudioFormat => AUDIO_FORMATS.includes(value as AudioFormat);
+
+export interface TranscodeRequest {
+  id: number;
+  channels: Float32Array[];
+  sampleRate: number;
+  // Acceptable formats, best first; the worker uses the first one it can produce
+  formats: AudioFormat[];
+}
+
+export type TranscodeResponse =
+  | { id: number; format: AudioFormat; mimeType: string; data: ArrayBuffer }
+  | { id: number; error: string };
@@ -1,15 +1,53 @@
-import Cookies from "js-cookie";
+export interface VoiceActivityOptions {
+  // RMS energy (0-1) above which a frame counts as speech
+  silenceThreshold?: number;
+  // Utterances shorter than this are treated as noise and not cut
+  minUtteranceMs?: number;
+  // How long the input must stay below the threshold to end an utterance
+  silenceDurationMs?: number;
+  // Receives each automatically cut segment
+  onSegment: (segment: Blob) => void | Promise<void>;
+}
+
+export const DEFAULT_SILENCE_THRESHOLD = 0.01;
+const DEFAULT_MIN_UTTERANCE_MS = 600;
+const DEFAULT_SILENCE_DURATION_MS = 800;
+const VOICE_ACTIVITY_POLL_MS = 50;
+
+export interface RecordingOptions {
+  // From enumerateDevices(); the browser default is used when missing or unplugged
+  deviceId?: string;
+  voiceActivity?: VoiceActivityOptions;
+}
+
+// Root mean square of the current frame, 0 (silence) to 1 (full scale)
+const measureRms = (analyser: AnalyserNode, samples: Float32Array): number => {
+  analyser.getFloatTimeDomainData(samples);
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  return Math.sqrt(sumSquares / samples.length);
+};
 
 export class AudioRecorder {
   private mediaRecorder: MediaRecorder | null = null;
   private audioChunks: Blob[] = [];
   private processedChunkCount: number = 0; // Track how many chunks have been processed
   private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private levelSamples: Float32Array | null = null;
+  private voiceActivityTimer: ReturnType<typeof setInterval> | null = null;
+  private isSegmenting: boolean = false;
+  // A segment cut still under way; stopping waits for it so the recorder it restarts is stopped too
+  private pendingSegment: Promise<Blob> | null = null;
 
-  async startRecording(): Promise<void> {
+  async startRecording(recordingOptions?: RecordingOptions): Promise<void> {
     try {
       this.stream = await navigator.mediaDevices.getUserMedia({ 
         audio: {
+          ...(recordingOptions?.deviceId ? { deviceId: recordingOptions.deviceId } : {}),
           echoCancellation: true,
           noiseSuppression: true,
           autoGainControl: true,
@@ -49,13 +87,23 @@ export class AudioRecorder {
       // Start recording with 5-second chunks for better Whisper context
       this.mediaRecorder.start(2000);
       console.log("Recording started with improved audio settings");
+
+      this.startLevelAnalysis(this.stream);
+      if (recordingOptions?.voiceActivity) {
+        this.startVoiceActivityDetection(recordingOptions.voiceActivity);
+      }
     } catch (error) {
       console.error("Error starting recording:", error);
       throw error;
     }
   }
 
-  stopRecording(): Promise<Blob> {
+  async stopRecording(): Promise<Blob> {
+    // No more automatic cuts once the user has asked to stop
+    this.stopVoiceActivityDetection();
+    // Its failure is reported to whoever started the cut
+    await this.pendingSegment?.catch(() => undefined);
+
     return new Promise((resolve, reject) => {
       if (!this.mediaRecorder) {
         reject(new Error("No active recording"));
@@ -77,30 +125,64 @@ export class AudioRecorder {
     });
   }
 
+  // Ends the session and throws the audio away; nothing is resolved for sending
+  abort(): void {
+    if (this.mediaRecorder) {
+      this.mediaRecorder.ondataavailable = null;
+      this.mediaRecorder.onstop = null;
+      if (this.mediaRecorder.state !== "inactive") {
+        this.mediaRecorder.stop();
+      }
+    }
+    this.cleanup();
+    console.log("Recording aborted, audio discarded");
+  }
+
   processSegment(): Promise<Blob> {
+    const segment = this.cutSegment();
+    this.pendingSegment = segment;
+    const clear = () => {
+      if (this.pendingSegment === segment) {
+        this.pendingSegment = null;
+      }
+    };
+    segment.then(clear, clear);
+    return segment;
+  }
+
+  private cutSegment(): Promise<Blob> {
     return new Promise((resolve, reject) => {
       if (!this.mediaRecorder || this.mediaRecorder.state !== "recording") {
         reject(new Error("No active recording"));
         return;
       }
 
-      // Get only unprocessed chunks (new chunks since last processing)
-      const unprocessedChunks = this.audioChunks.slice(this.processedChunkCount);
-      
       // Store current MediaRecorder configuration for restart
       const currentMimeType = this.mediaRecorder.mimeType;
       const currentStream = this.stream;
       
       // Set up one-time listener for the stop event
       const handleStop = () => {
+        this.mediaRecorder?.removeEventListener('stop', handleStop);
+
+        // abort() landed while the segment was being cut
+        if (!this.stream) {
+          reject(new Error("Recording was cancelled"));
+          return;
+        }
+
+        // Get only unprocessed chunks (new chunks since last processing),
+        // including the final chunk flushed by stop()
+        const unprocessedChunks = this.audioChunks.slice(this.processedChunkCount);
+
         // Create blob from unprocessed chunks
         const segmentBlob = new Blob(unprocessedChunks, { type: currentMimeType });
         
-        // Update processed chunk count
-        this.processedChunkCount = this.audioChunks.length;
+        // Sent chunks are dropped so a long session doesn't hold all of its audio in memory
+        this.audioChunks = [];
+        this.processedChunkCount = 0;
         
         console.log(`Segment processed: ${segmentBlob.size} bytes (${unprocessedChunks.length} new chunks)`);
-        console.log(`Total chunks: ${this.audioChunks.length}, Processed: ${this.processedChunkCount}`);
         
         // Restart recording with same configuration
         this.restartRecording(currentMimeType, currentStream)
@@ -111,9 +193,6 @@ export class AudioRecorder {
             console.error("Error restarting recording:", error);
             reject(error);
           });
-        
-        // Remove the listener after use
-        this.mediaRecorder?.removeEventListener('stop', handleStop);
       };
 
       // Add the stop listener
@@ -165,7 +244,85 @@ export class AudioRecorder {
     }
   }
 
+  // One analyser per session feeds both the level meter and voice activity detection
+  private startLevelAnalysis(stream: MediaStream): void {
+    this.audioContext = new AudioContext();
+    const source = this.audioContext.createMediaStreamSource(stream);
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = 2048;
+    source.connect(this.analyser);
+    this.levelSamples = new Float32Array(this.analyser.fftSize);
+  }
+
+  private startVoiceActivityDetection(options: VoiceActivityOptions): void {
+    const silenceThreshold = options.silenceThreshold ?? DEFAULT_SILENCE_THRESHOLD;
+    const minUtteranceMs = options.minUtteranceMs ?? DEFAULT_MIN_UTTERANCE_MS;
+    const silenceDurationMs = options.silenceDurationMs ?? DEFAULT_SILENCE_DURATION_MS;
+
+    const analyser = this.analyser;
+    // Set up by startLevelAnalysis; without it there is nothing to listen to
+    if (!analyser) {
+      console.warn("No audio analyser, voice activity detection is off");
+      return;
+    }
+    const samples = new Float32Array(analyser.fftSize);
+    let speechStartedAt: number | null = null;
+    let lastVoiceAt = 0;
+
+    this.voiceActivityTimer = setInterval(() => {
+      if (this.isSegmenting || !this.isRecording()) {
+        return;
+      }
+
+      const rms = measureRms(analyser, samples);
+      const now = Date.now();
+
+      if (rms >= silenceThreshold) {
+        if (speechStartedAt === null) {
+          speechStartedAt = now;
+        }
+        lastVoiceAt = now;
+        return;
+      }
+
+      if (speechStartedAt === null || now - lastVoiceAt < silenceDurationMs) {
+        return;
+      }
+
+      const utteranceMs = lastVoiceAt - speechStartedAt;
+      speechStartedAt = null;
+      if (utteranceMs < minUtteranceMs) {
+        return;
+      }
+
+      console.log(`Pause detected after ${utteranceMs}ms of speech, cutting segment`);
+      this.isSegmenting = true;
+      this.processSegment()
+        .then((segment) => options.onSegment(segment))
+        .catch((error) => {
+          console.error("Error cutting voice segment:", error);
+        })
+        .finally(() => {
+          this.isSegmenting = false;
+        });
+    }, VOICE_ACTIVITY_POLL_MS);
+  }
+
+  private stopVoiceActivityDetection(): void {
+    if (this.voiceActivityTimer) {
+      clearInterval(this.voiceActivityTimer);
+      this.voiceActivityTimer = null;
+    }
+  }
+
   private cleanup(): void {
+    this.stopVoiceActivityDetection();
+    if (this.audioContext) {
+      this.audioContext.close().catch(() => undefined);
+      this.audioContext = null;
+    }
+    this.analyser = null;
+    this.levelSamples = null;
     if (this.stream) {
       this.stream.getTracks().forEach((track) => track.stop());
       this.stream = null;
@@ -175,6 +332,14 @@ export class AudioRecorder {
     this.processedChunkCount = 0; // Reset processed chunk counter
   }
 
+  // Current input level as RMS (0-1); 0 when nothing is being recorded
+  getInputLevel(): number {
+    if (!this.analyser || !this.levelSamples) {
+      return 0;
+    }
+    return measureRms(this.analyser, this.levelSamples);
+  }
+
   isRecording(): boolean {
     return this.mediaRecorder?.state === "recording";
   }
@@ -187,86 +352,3 @@ export class AudioRecorder {
     };
   }
 }
-
-interface TrelloConfig {
-  apiKey: string;
-  token: string;
-  boardId: string;
-}
-
-interface LinearConfig {
-  apiKey: string;
-  workspaceId: string;
-}
-
-interface AsanaConfig {
-  personalAccessToken: string;
-  projectId: string;
-}
-
-type PlatformConfig = TrelloConfig | LinearConfig | AsanaConfig;
-
-export const sendAudioToBackend = async (
-  audioBlob: Blob,
-  platform?: "trello" | "linear" | "asana" | "notion",
-  config?: PlatformConfig,
-  baseUrl: string = "http://127.0.0.1:8000"
-): Promise<Response> => {
-  // Determine endpoint based on platform
-  const apiEndpoint = platform === "linear" 
-    ? `${baseUrl}/send-audio-linear`
-    : `${baseUrl}/send-audio`;
-  const formData = new FormData();
-  
-  // Use proper filename extension based on blob type
-  const filename = audioBlob.type.includes('webm') ? 'recording.webm' : 'recording.wav';
-  formData.append("audio", audioBlob, filename);
-  
-  // Add platform parameter
-  if (platform) {
-    formData.append("platform", platform);
-  }
-  
-  // Add platform-specific configuration
-  if (config) {
-    if (platform === "trello") {
-      const trelloConfig = config as TrelloConfig;
-      formData.append("apiKey", trelloConfig.apiKey);
-      formData.append("token", trelloConfig.token);
-      formData.append("boardId", trelloConfig.boardId);
-    } else if (platform === "linear") {
-      const linearConfig = config as LinearConfig;
-      formData.append("apiKey", linearConfig.apiKey);
-      formData.append("workspaceId", linearConfig.workspaceId);
-    } else if (platform === "asana") {
-      const asanaConfig = config as AsanaConfig;
-      formData.append("asanaToken", asanaConfig.personalAccessToken);
-      formData.append("asanaProjectId", asanaConfig.projectId);
-    }
-  } else {
-    // Fallback to cookies for backward compatibility
-    formData.append("apiKey", Cookies.get("apiKey") || "");
-    formData.append("token", Cookies.get("token") || "");
-    formData.append("boardId", Cookies.get("boardId") || "");
-    formData.append("workspaceId", Cookies.get("workspaceId") || "");
-    formData.append("asanaToken", Cookies.get("personalAccessToken") || "");
-    formData.append("asanaProjectId", Cookies.get("projectId") || "");
-  }
-
-  console.log("Sending audio to backend...", audioBlob.size, "bytes", `Type: ${audioBlob.type}`, `Platform: ${platform}`);
-
-  try {
-    const response = await fetch(apiEndpoint, {
-      method: "POST",
-      body: formData,
-    })
-
-    console.log(response);
-
-    console.log("Audio sent successfully:", response);
-    return response;
-  } catch (error) {
-    console.error("Error sending audio:", error);
-    throw error;
-  }
-};
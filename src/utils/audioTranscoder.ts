@@ -0,0 +1,54 @@
+import type { AudioFormat, TranscodeRequest, TranscodeResponse } from "./audioFormats";
+
+// Converts recordings to 16 kHz mono before upload. Decoding needs an audio context,
+// which workers don't have, so it happens here; resampling and encoding run in a worker.
+
+// Rate the recording is decoded at before the worker brings it down to TRANSCODE_SAMPLE_RATE
+const DECODE_SAMPLE_RATE = 48000;
+
+export const canTranscode = (): boolean => typeof Worker !== "undefined" && typeof OfflineAudioContext !== "undefined";
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (response: TranscodeResponse) => void; reject: (error: Error) => void }>();
+
+// One worker is started on first use and kept for later recordings
+const getWorker = (): Worker => {
+  if (worker) {
+    return worker;
+  }
+  worker = new Worker(new URL("./audioTranscoder.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<TranscodeResponse>) => {
+    pending.get(event.data.id)?.resolve(event.data);
+    pending.delete(event.data.id);
+  };
+  worker.onerror = (event) => {
+    console.error("Audio transcoder worker failed:", event.message);
+    pending.forEach(({ reject }) => reject(new Error(event.message || "Audio transcoder worker failed")));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+export const transcodeAudio = async (audio: Blob, formats: AudioFormat[]): Promise<Blob> => {
+  const context = new OfflineAudioContext(1, 1, DECODE_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+  // Copies, since the buffers are handed over to the worker
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index).slice());
+
+  const id = nextRequestId++;
+  const request: TranscodeRequest = { id, channels, sampleRate: buffer.sampleRate, formats };
+  const response = await new Promise<TranscodeResponse>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage(request, channels.map((channel) => channel.buffer));
+  });
+
+  if ("error" in response) {
+    throw new Error(response.error);
+  }
+  const transcoded = new Blob([response.data], { type: response.mimeType });
+  console.log(`Transcoded ${audio.size} bytes of ${audio.type || "audio"} to ${transcoded.size} bytes of ${response.format}`);
+  return transcoded;
+};
@@ -0,0 +1,286 @@
+import { TRANSCODE_SAMPLE_RATE, type AudioFormat, type TranscodeRequest, type TranscodeResponse } from "./audioFormats";
+
+// WebCodecs is missing from this TypeScript version's DOM lib, so only what we use is described here
+interface EncodedAudioChunkLike {
+  byteLength: number;
+  // Microseconds
+  duration: number | null;
+  copyTo(destination: Uint8Array): void;
+}
+
+interface AudioEncoderConfigLike {
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  bitrate: number;
+}
+
+interface AudioEncoderLike {
+  configure(config: AudioEncoderConfigLike): void;
+  encode(data: AudioDataLike): void;
+  flush(): Promise<void>;
+  close(): void;
+}
+
+interface AudioDataLike {
+  close(): void;
+}
+
+interface WebCodecs {
+  AudioEncoder: {
+    new (init: { output: (chunk: EncodedAudioChunkLike) => void; error: (error: Error) => void }): AudioEncoderLike;
+    isConfigSupported(config: AudioEncoderConfigLike): Promise<{ supported: boolean }>;
+  };
+  AudioData: new (init: {
+    format: "f32";
+    sampleRate: number;
+    numberOfFrames: number;
+    numberOfChannels: number;
+    timestamp: number;
+    data: Float32Array;
+  }) => AudioDataLike;
+}
+
+const webCodecs = globalThis as unknown as Partial<WebCodecs>;
+
+const OPUS_CONFIG: AudioEncoderConfigLike = {
+  codec: "opus",
+  sampleRate: TRANSCODE_SAMPLE_RATE,
+  numberOfChannels: 1,
+  // Plenty for speech at 16 kHz
+  bitrate: 24000,
+};
+
+// Opus timestamps are always counted at 48 kHz, whatever the input rate
+const OPUS_GRANULE_RATE = 48000;
+// libopus lookahead, which decoders drop from the start
+const OPUS_PRE_SKIP = 312;
+const OPUS_DEFAULT_FRAME_US = 20000;
+const ENCODE_BLOCK_FRAMES = TRANSCODE_SAMPLE_RATE;
+
+// Average the channels, then average each output sample's window of input samples,
+// which also filters out most of what would alias when downsampling
+const toMono = (channels: Float32Array[], sampleRate: number): Float32Array => {
+  const length = channels[0]?.length ?? 0;
+  const mono = new Float32Array(length);
+  channels.forEach((channel) => {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  });
+  if (sampleRate === TRANSCODE_SAMPLE_RATE) {
+    return mono;
+  }
+
+  const ratio = sampleRate / TRANSCODE_SAMPLE_RATE;
+  const resampled = new Float32Array(Math.floor(length / ratio));
+  for (let i = 0; i < resampled.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(Math.max(start + 1, Math.ceil((i + 1) * ratio)), length);
+    let sum = 0;
+    for (let j = start; j < end; j++) {
+      sum += mono[j];
+    }
+    resampled[i] = sum / (end - start);
+  }
+  return resampled;
+};
+
+const encodeWav = (samples: Float32Array): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+
+  writeAscii(0, "RIFF");
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeAscii(8, "WAVE");
+  writeAscii(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, TRANSCODE_SAMPLE_RATE, true);
+  view.setUint32(28, TRANSCODE_SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeAscii(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, index) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(44 + index * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+  return buffer;
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    }
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+const oggCrc = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  }
+  return crc;
+};
+
+const OGG_BOS = 0x02;
+const OGG_EOS = 0x04;
+const OGG_STREAM_SERIAL = 1;
+
+// One Ogg page holding whole packets; callers keep each page within 255 lacing values
+const oggPage = (packets: Uint8Array[], granule: number, sequence: number, headerType: number): Uint8Array => {
+  const lacing = packets.flatMap((packet) => [
+    ...Array<number>(Math.floor(packet.length / 255)).fill(255),
+    packet.length % 255,
+  ]);
+  const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodyLength);
+  const view = new DataView(page.buffer);
+
+  page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+  view.setUint8(5, headerType);
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, OGG_STREAM_SERIAL, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  packets.forEach((packet) => {
+    page.set(packet, offset);
+    offset += packet.length;
+  });
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+};
+
+const lacingValues = (packet: Uint8Array): number => Math.floor(packet.length / 255) + 1;
+
+const opusHead = (): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode("OpusHead"));
+  view.setUint8(8, 1); // version
+  view.setUint8(9, 1); // channels
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, TRANSCODE_SAMPLE_RATE, true);
+  return head;
+};
+
+const opusTags = (): Uint8Array => {
+  const vendor = new TextEncoder().encode("agilow");
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode("OpusTags"));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  return tags;
+};
+
+// Opus packets from WebCodecs, wrapped in an Ogg container (RFC 7845)
+const encodeOggOpus = async (samples: Float32Array): Promise<ArrayBuffer | null> => {
+  const { AudioEncoder, AudioData } = webCodecs;
+  if (!AudioEncoder || !AudioData || !(await AudioEncoder.isConfigSupported(OPUS_CONFIG)).supported) {
+    return null;
+  }
+
+  const packets: { data: Uint8Array; duration: number }[] = [];
+  let encodeError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      const duration = Math.round(((chunk.duration ?? OPUS_DEFAULT_FRAME_US) * OPUS_GRANULE_RATE) / 1_000_000);
+      packets.push({ data, duration });
+    },
+    error: (error) => {
+      encodeError = error;
+    },
+  });
+  encoder.configure(OPUS_CONFIG);
+  for (let offset = 0; offset < samples.length; offset += ENCODE_BLOCK_FRAMES) {
+    const block = samples.subarray(offset, offset + ENCODE_BLOCK_FRAMES);
+    const audioData = new AudioData({
+      format: "f32",
+      sampleRate: TRANSCODE_SAMPLE_RATE,
+      numberOfFrames: block.length,
+      numberOfChannels: 1,
+      timestamp: Math.round((offset * 1_000_000) / TRANSCODE_SAMPLE_RATE),
+      data: block,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (encodeError) {
+    throw encodeError;
+  }
+
+  const pages = [oggPage([opusHead()], 0, 0, OGG_BOS), oggPage([opusTags()], 0, 1, 0)];
+  // The last page's granule marks where the real audio ends, so padding is trimmed on decode
+  const endGranule = OPUS_PRE_SKIP + Math.round((samples.length * OPUS_GRANULE_RATE) / TRANSCODE_SAMPLE_RATE);
+  let granule = 0;
+  let pagePackets: Uint8Array[] = [];
+  let pageLacing = 0;
+  packets.forEach((packet, index) => {
+    pagePackets.push(packet.data);
+    pageLacing += lacingValues(packet.data);
+    granule += packet.duration;
+    const isLast = index === packets.length - 1;
+    const next = packets[index + 1];
+    if (isLast || pageLacing + lacingValues(next.data) > 255) {
+      pages.push(oggPage(pagePackets, isLast ? Math.min(granule, endGranule) : granule, pages.length, isLast ? OGG_EOS : 0));
+      pagePackets = [];
+      pageLacing = 0;
+    }
+  });
+
+  const output = new Uint8Array(pages.reduce((sum, page) => sum + page.length, 0));
+  let offset = 0;
+  pages.forEach((page) => {
+    output.set(page, offset);
+    offset += page.length;
+  });
+  return output.buffer;
+};
+
+const MIME_TYPES: Record<AudioFormat, string> = {
+  "ogg-opus": "audio/ogg; codecs=opus",
+  wav: "audio/wav",
+};
+
+const encode = async (samples: Float32Array, format: AudioFormat): Promise<ArrayBuffer | null> =>
+  format === "ogg-opus" ? encodeOggOpus(samples) : encodeWav(samples);
+
+self.onmessage = async (event: MessageEvent<TranscodeRequest>) => {
+  const { id, channels, sampleRate, formats } = event.data;
+  let response: TranscodeResponse;
+  try {
+    const samples = toMono(channels, sampleRate);
+    response = { id, error: `None of ${formats.join(", ")} can be produced in this browser` };
+    for (const format of formats) {
+      const data = await encode(samples, format);
+      if (data) {
+        response = { id, format, mimeType: MIME_TYPES[format], data };
+        break;
+      }
+    }
+  } catch (error) {
+    response = { id, error: (error as Error).message || "Transcoding failed" };
+  }
+  self.postMessage(response, { transfer: "data" in response ? [response.data] : [] });
+};